@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SplitParams } from '../utilities/featuresplitter';
+import { ProcessFeatureFilesOptions } from '../utilities/convertToScenario';
+import { RemapFileParams } from '../utilities/resultRemapper';
+import { ValidateFeaturesOptions } from '../utilities/validator';
+import { InventoryOptions } from '../utilities/inventory';
+import { FoldFeatureFilesOptions } from '../utilities/convertToOutline';
+
+/** File looked up in the working directory when no `--config` is given. */
+export const DEFAULT_CONFIG_FILE = 'gherkin-utils.config.json';
+
+/**
+ * Options for the `split` command; `watch` keeps splitting as the sources change.
+ */
+export interface SplitConfig extends SplitParams {
+  watch?: boolean;
+}
+
+/**
+ * Options for the `convert` command.
+ */
+export interface ConvertConfig extends ProcessFeatureFilesOptions {
+  pattern: string;
+}
+
+/**
+ * Options for the `fold` command.
+ */
+export interface FoldConfig extends FoldFeatureFilesOptions {
+  pattern: string;
+}
+
+/**
+ * Options for the `validate` command.
+ */
+export interface ValidateConfig extends ValidateFeaturesOptions {
+  pattern: string;
+}
+
+/**
+ * Options for the `inventory` command.
+ */
+export interface InventoryConfig extends InventoryOptions {
+  pattern: string;
+}
+
+/**
+ * Per-command options, as found at the top level of the config file or inside a profile.
+ */
+export interface CommandConfig {
+  split?: Partial<SplitConfig>;
+  convert?: Partial<ConvertConfig>;
+  fold?: Partial<FoldConfig>;
+  remap?: Partial<RemapFileParams>;
+  validate?: Partial<ValidateConfig>;
+  inventory?: Partial<InventoryConfig>;
+}
+
+/**
+ * Shape of `gherkin-utils.config.json`:
+ *
+ * ```json
+ * {
+ *   "split": { "sourceSpecDirectory": "./features", "tmpSpecDirectory": "./tmp" },
+ *   "profiles": {
+ *     "smoke": { "split": { "tagExpression": "@smoke", "cleanTmpSpecDirectory": true } }
+ *   }
+ * }
+ * ```
+ */
+export interface GherkinUtilsConfig extends CommandConfig {
+  profiles?: Record<string, CommandConfig>;
+}
+
+/**
+ * Loads the config file. An explicit `configPath` must exist; the default file is optional.
+ */
+export function loadConfig(configPath?: string, cwd: string = process.cwd()): GherkinUtilsConfig {
+  const resolved = path.resolve(cwd, configPath ?? DEFAULT_CONFIG_FILE);
+  if (!fs.existsSync(resolved)) {
+    if (configPath) {
+      throw new Error(`Config file not found: ${resolved}`);
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(resolved, 'utf8')) as GherkinUtilsConfig;
+  } catch (error) {
+    throw new Error(`Invalid config file ${resolved}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Merges the top-level command options with those of the selected profile (profile wins).
+ */
+export function resolveProfile(config: GherkinUtilsConfig, profileName?: string): CommandConfig {
+  if (!profileName) {
+    return {
+      split: config.split,
+      convert: config.convert,
+      fold: config.fold,
+      remap: config.remap,
+      validate: config.validate,
+      inventory: config.inventory
+    };
+  }
+
+  const profile = config.profiles?.[profileName];
+  if (!profile) {
+    const known = Object.keys(config.profiles ?? {});
+    throw new Error(`Unknown profile "${profileName}"${known.length ? ` (available: ${known.join(', ')})` : ''}`);
+  }
+
+  return {
+    split: { ...config.split, ...profile.split },
+    convert: { ...config.convert, ...profile.convert },
+    fold: { ...config.fold, ...profile.fold },
+    remap: { ...config.remap, ...profile.remap },
+    validate: {
+      ...config.validate,
+      ...profile.validate,
+      rules: { ...config.validate?.rules, ...profile.validate?.rules }
+    },
+    inventory: { ...config.inventory, ...profile.inventory }
+  };
+}
@@ -0,0 +1,569 @@
+import * as path from 'path';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { parseSelectors, performSetup, watchFeatures, SplitParams } from '../utilities/featuresplitter';
+import { commonDirectory } from '../helpers/fileUtils';
+import { processFeatureFiles } from '../utilities/convertToScenario';
+import { foldFeatureFiles } from '../utilities/convertToOutline';
+import { remapResultFile, RemapFileParams } from '../utilities/resultRemapper';
+import { validateFeatures, RuleSeverity, ValidationRuleId } from '../utilities/validator';
+import { exportInventory, InventoryFormat } from '../utilities/inventory';
+import {
+  ConvertConfig,
+  FoldConfig,
+  InventoryConfig,
+  SplitConfig,
+  ValidateConfig,
+  loadConfig,
+  resolveProfile
+} from './config';
+
+/**
+ * Process exit codes of the `gherkin-utils` bin.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  noMatch: 1, // nothing found or matched
+  error: 2, // parse errors, bad arguments or config
+  checkFailed: 3 // `convert --check` found files not in converted form, or `validate` found errors
+} as const;
+
+/**
+ * Describes one command-line flag and the option it maps to.
+ * `negatable` boolean flags also accept `--no-<flag>`; `multiple` flags may be repeated.
+ * `parse` turns the raw string value(s) into the option value.
+ */
+interface FlagSpec<T> {
+  key: keyof T;
+  type: 'string' | 'boolean' | 'number';
+  short?: string;
+  negatable?: boolean;
+  multiple?: boolean;
+  parse?: (value: string | string[]) => T[keyof T];
+  description: string;
+}
+
+type FlagTable<T> = Record<string, FlagSpec<T>>;
+type FlagValues = Record<string, string | boolean | string[] | undefined>;
+
+const SPLIT_FLAGS: FlagTable<SplitConfig> = {
+  source: {
+    key: 'sourceSpecDirectory',
+    type: 'string',
+    short: 's',
+    multiple: true,
+    description: 'Folder containing .feature files (repeatable)'
+  },
+  out: { key: 'tmpSpecDirectory', type: 'string', short: 'o', description: 'Output folder for the split files' },
+  'single-file': { key: 'singleFile', type: 'string', description: 'Split only this .feature file' },
+  select: {
+    key: 'selectors',
+    type: 'string',
+    multiple: true,
+    description: 'Split only path[:line]... (a scenario, Examples, row or rule) or @<rerun file> (repeatable)'
+  },
+  include: { key: 'include', type: 'string', multiple: true, description: 'Glob of the files to split (repeatable)' },
+  exclude: { key: 'exclude', type: 'string', multiple: true, description: 'Glob of the files to skip (repeatable)' },
+  language: {
+    key: 'language',
+    type: 'string',
+    short: 'l',
+    description: 'Gherkin language of files without a # language: header'
+  },
+  tags: { key: 'tagExpression', type: 'string', short: 't', description: 'Tag expression filtering the scenarios' },
+  name: {
+    key: 'includeNames',
+    type: 'string',
+    multiple: true,
+    description:
+      'Only split scenarios/rows with a feature, rule, scenario or example name matching this regex (repeatable)'
+  },
+  'exclude-name': {
+    key: 'excludeNames',
+    type: 'string',
+    multiple: true,
+    description: 'Skip scenarios/rows with a name matching this regex (repeatable)'
+  },
+  manifest: { key: 'manifestPath', type: 'string', description: 'Write a JSON source map of the generated files' },
+  granularity: {
+    key: 'granularity',
+    type: 'string',
+    short: 'g',
+    description: 'One file per row (default), examples, scenario, rule or batch'
+  },
+  'batch-size': { key: 'batchSize', type: 'number', description: 'Rows/scenarios per file with --granularity batch' },
+  'name-template': {
+    key: 'nameTemplate',
+    type: 'string',
+    description: 'Output file names, e.g. {feature}/{scenario}_{row} (default: {feature}_{index})'
+  },
+  'inline-backgrounds': {
+    key: 'inlineBackgrounds',
+    type: 'boolean',
+    description: 'Copy the Background steps into every scenario instead of keeping Background blocks'
+  },
+  expansion: {
+    key: 'expansion',
+    type: 'string',
+    description: "ast (default) keeps the rows in their outline; pickles writes them as Gherkin's compiler expands them"
+  },
+  pickles: {
+    key: 'picklesPath',
+    type: 'string',
+    description: 'Write the source, AST and pickle messages of the generated files as NDJSON'
+  },
+  'shard-count': { key: 'shardCount', type: 'number', description: 'Distribute the scenarios over this many shards' },
+  'shard-index': { key: 'shardIndex', type: 'number', description: 'Only write this shard (1-based)' },
+  durations: {
+    key: 'durationsReport',
+    type: 'string',
+    multiple: true,
+    description: 'Cucumber JSON/NDJSON report used to balance shards by duration (repeatable)'
+  },
+  incremental: {
+    key: 'incremental',
+    type: 'boolean',
+    description: 'Only re-split the files changed since the last run and delete stale outputs'
+  },
+  cache: {
+    key: 'cachePath',
+    type: 'string',
+    description: 'Incremental cache file (default: <out>/.gherkin-utils-cache.json)'
+  },
+  'fail-fast': { key: 'failFast', type: 'boolean', description: 'Stop at the first file that fails' },
+  watch: { key: 'watch', type: 'boolean', short: 'w', description: 'Keep the output folder in sync as files change' },
+  clean: {
+    key: 'cleanTmpSpecDirectory',
+    type: 'boolean',
+    negatable: true,
+    description: 'Empty the output folder before writing'
+  }
+};
+
+const CONVERT_FLAGS: FlagTable<ConvertConfig> = {
+  pattern: { key: 'pattern', type: 'string', description: 'Path or glob of the feature files to convert' },
+  'out-dir': { key: 'outputDirectory', type: 'string', short: 'o', description: 'Write converted files here' },
+  'base-dir': { key: 'baseDirectory', type: 'string', description: 'Folder the --out-dir layout is relative to' },
+  'dry-run': { key: 'dryRun', type: 'boolean', description: 'Only report the files that would change' },
+  check: { key: 'check', type: 'boolean', description: 'Print a diff and fail if files are not converted' },
+  manifest: { key: 'manifestPath', type: 'string', description: 'Write a JSON source map of the converted files' },
+  name: {
+    key: 'includeNames',
+    type: 'string',
+    multiple: true,
+    description:
+      'Only convert Examples rows with a feature, rule, scenario or example name matching this regex (repeatable)'
+  },
+  'exclude-name': {
+    key: 'excludeNames',
+    type: 'string',
+    multiple: true,
+    description: 'Leave Examples rows with a name matching this regex in their outline (repeatable)'
+  },
+  'inline-backgrounds': {
+    key: 'inlineBackgrounds',
+    type: 'boolean',
+    description: 'Copy the Background steps into every scenario instead of keeping Background blocks'
+  },
+  expansion: {
+    key: 'expansion',
+    type: 'string',
+    description: "ast (default) replaces the placeholders; pickles takes the scenarios from Gherkin's compiler"
+  },
+  pickles: {
+    key: 'picklesPath',
+    type: 'string',
+    description: 'Write the source, AST and pickle messages of the converted files as NDJSON'
+  },
+  language: {
+    key: 'language',
+    type: 'string',
+    short: 'l',
+    description: 'Gherkin language of files without a # language: header'
+  },
+  'fail-fast': { key: 'failFast', type: 'boolean', description: 'Stop at the first file that fails' }
+};
+
+const FOLD_FLAGS: FlagTable<FoldConfig> = {
+  pattern: { key: 'pattern', type: 'string', description: 'Path or glob of the feature files to fold' },
+  'out-dir': { key: 'outputDirectory', type: 'string', short: 'o', description: 'Write folded files here' },
+  'base-dir': { key: 'baseDirectory', type: 'string', description: 'Folder the --out-dir layout is relative to' },
+  'dry-run': { key: 'dryRun', type: 'boolean', description: 'Only print the diff of the proposed outlines' },
+  'min-scenarios': {
+    key: 'minScenarios',
+    type: 'number',
+    description: 'Fewest scenarios folded into one outline (default: 2)'
+  },
+  'max-placeholders': {
+    key: 'maxPlaceholders',
+    type: 'number',
+    description: 'Most placeholders of an outline; more different scenarios are left alone (default: 5)'
+  },
+  language: {
+    key: 'language',
+    type: 'string',
+    short: 'l',
+    description: 'Gherkin language of files without a # language: header'
+  },
+  'fail-fast': { key: 'failFast', type: 'boolean', description: 'Stop at the first file that fails' }
+};
+
+const REMAP_FLAGS: FlagTable<RemapFileParams> = {
+  manifest: { key: 'manifestPath', type: 'string', short: 'm', description: 'Manifest written by split --manifest' },
+  input: { key: 'input', type: 'string', short: 'i', description: 'Cucumber JSON or messages NDJSON report' },
+  output: { key: 'output', type: 'string', short: 'o', description: 'Remapped report (default: overwrite input)' }
+};
+
+const VALIDATE_FLAGS: FlagTable<ValidateConfig> = {
+  pattern: { key: 'pattern', type: 'string', description: 'Path or glob of the feature files to validate' },
+  rule: {
+    key: 'rules',
+    type: 'string',
+    multiple: true,
+    parse: (value) => parseRuleFlags(value as string[]),
+    description: 'Rule severity as <rule>=error|warning|off (repeatable)'
+  },
+  language: {
+    key: 'language',
+    type: 'string',
+    short: 'l',
+    description: 'Gherkin language of files without a # language: header'
+  },
+  'fail-fast': { key: 'failFast', type: 'boolean', description: 'Stop at the first file that cannot be read' }
+};
+
+const INVENTORY_FLAGS: FlagTable<InventoryConfig> = {
+  pattern: { key: 'pattern', type: 'string', description: 'Path or glob of the feature files to list' },
+  format: {
+    key: 'format',
+    type: 'string',
+    short: 'f',
+    parse: (value) => value as InventoryFormat,
+    description: 'json, csv or markdown (default: from the --out extension, else markdown)'
+  },
+  out: { key: 'output', type: 'string', short: 'o', description: 'Write the inventory here (default: stdout)' },
+  language: {
+    key: 'language',
+    type: 'string',
+    short: 'l',
+    description: 'Gherkin language of files without a # language: header'
+  },
+  'fail-fast': { key: 'failFast', type: 'boolean', description: 'Stop at the first file that fails' }
+};
+
+const COMMON_FLAGS: NonNullable<ParseArgsConfig['options']> = {
+  config: { type: 'string', short: 'c' },
+  profile: { type: 'string', short: 'p' },
+  help: { type: 'boolean', short: 'h' }
+};
+
+/**
+ * Runs the CLI with the given arguments (without `node` and the script path)
+ * and resolves with the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  try {
+    switch (command) {
+      case 'split':
+        return await runSplit(rest);
+      case 'convert':
+        return await runConvert(rest);
+      case 'fold':
+        return await runFold(rest);
+      case 'remap':
+        return runRemap(rest);
+      case 'validate':
+        return await runValidate(rest);
+      case 'inventory':
+        return await runInventory(rest);
+      case '-h':
+      case '--help':
+        console.log(usage());
+        return EXIT_CODES.success;
+      default:
+        console.error(command ? `Unknown command "${command}"\n` : 'Missing command\n');
+        console.error(usage());
+        return EXIT_CODES.error;
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_CODES.error;
+  }
+}
+
+async function runSplit(args: string[]): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, SPLIT_FLAGS);
+  if (values.help) {
+    console.log(commandUsage('split', SPLIT_FLAGS, '[path[:line]...]'));
+    return EXIT_CODES.success;
+  }
+
+  const config = resolveProfile(loadConfig(values.config as string | undefined), values.profile as string | undefined);
+  const { watch, ...params }: Partial<SplitConfig> = {
+    cleanTmpSpecDirectory: false,
+    ...config.split,
+    ...flagsToOptions(values, SPLIT_FLAGS)
+  };
+  if (positionals.length) {
+    params.selectors = [...(params.selectors ?? []), ...positionals];
+  }
+
+  if (!params.tmpSpecDirectory) {
+    throw new Error('Missing output folder: pass --out or set split.tmpSpecDirectory in the config');
+  }
+  if (!params.sourceSpecDirectory?.length) {
+    if (params.singleFile) {
+      params.sourceSpecDirectory = path.dirname(params.singleFile);
+    } else if (params.selectors?.length) {
+      params.sourceSpecDirectory = commonDirectory(parseSelectors(params.selectors).map((selector) => selector.path));
+    } else {
+      throw new Error(
+        'Missing source: pass --source, --single-file, path:line selectors or set split.sourceSpecDirectory in the config'
+      );
+    }
+  }
+
+  if (watch) {
+    const watcher = watchFeatures(params as SplitParams);
+    await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+    watcher.close();
+    return EXIT_CODES.success;
+  }
+
+  const summary = await performSetup(params as SplitParams);
+  if (summary.fileErrors.length) {
+    return EXIT_CODES.error;
+  }
+  if (summary.scenariosWritten === 0) {
+    console.warn('No scenarios matched.');
+    return EXIT_CODES.noMatch;
+  }
+  return EXIT_CODES.success;
+}
+
+async function runConvert(args: string[]): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, CONVERT_FLAGS);
+  if (values.help) {
+    console.log(commandUsage('convert', CONVERT_FLAGS, '[pattern]'));
+    return EXIT_CODES.success;
+  }
+
+  const config = resolveProfile(loadConfig(values.config as string | undefined), values.profile as string | undefined);
+  const options: Partial<ConvertConfig> = { ...config.convert, ...flagsToOptions(values, CONVERT_FLAGS) };
+  const pattern = positionals[0] ?? options.pattern;
+  if (!pattern) {
+    throw new Error('Missing pattern: pass it as an argument or set convert.pattern in the config');
+  }
+
+  const summary = await processFeatureFiles(pattern, options);
+  if (summary.fileErrors.length) {
+    return EXIT_CODES.error;
+  }
+  if (options.check && summary.changedFiles.length) {
+    return EXIT_CODES.checkFailed;
+  }
+  if (summary.featureFiles === 0) {
+    console.warn(`No feature files matched: ${pattern}`);
+    return EXIT_CODES.noMatch;
+  }
+  return EXIT_CODES.success;
+}
+
+async function runFold(args: string[]): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, FOLD_FLAGS);
+  if (values.help) {
+    console.log(commandUsage('fold', FOLD_FLAGS, '[pattern]'));
+    return EXIT_CODES.success;
+  }
+
+  const config = resolveProfile(loadConfig(values.config as string | undefined), values.profile as string | undefined);
+  const options: Partial<FoldConfig> = { ...config.fold, ...flagsToOptions(values, FOLD_FLAGS) };
+  const pattern = positionals[0] ?? options.pattern;
+  if (!pattern) {
+    throw new Error('Missing pattern: pass it as an argument or set fold.pattern in the config');
+  }
+
+  const summary = await foldFeatureFiles(pattern, options);
+  if (summary.fileErrors.length) {
+    return EXIT_CODES.error;
+  }
+  if (summary.featureFiles === 0) {
+    console.warn(`No feature files matched: ${pattern}`);
+    return EXIT_CODES.noMatch;
+  }
+  return EXIT_CODES.success;
+}
+
+function runRemap(args: string[]): number {
+  const { values, positionals } = parseCommandArgs(args, REMAP_FLAGS);
+  if (values.help) {
+    console.log(commandUsage('remap', REMAP_FLAGS, '[input]'));
+    return EXIT_CODES.success;
+  }
+
+  const config = resolveProfile(loadConfig(values.config as string | undefined), values.profile as string | undefined);
+  const params: Partial<RemapFileParams> = { ...config.remap, ...flagsToOptions(values, REMAP_FLAGS) };
+  params.input = positionals[0] ?? params.input;
+  if (!params.manifestPath || !params.input) {
+    throw new Error('Missing manifest or report: pass --manifest and --input (or the report as an argument)');
+  }
+
+  remapResultFile(params as RemapFileParams);
+  return EXIT_CODES.success;
+}
+
+async function runValidate(args: string[]): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, VALIDATE_FLAGS);
+  if (values.help) {
+    console.log(commandUsage('validate', VALIDATE_FLAGS, '[pattern]'));
+    return EXIT_CODES.success;
+  }
+
+  const config = resolveProfile(loadConfig(values.config as string | undefined), values.profile as string | undefined);
+  const flags = flagsToOptions(values, VALIDATE_FLAGS);
+  const options: Partial<ValidateConfig> = {
+    ...config.validate,
+    ...flags,
+    rules: { ...config.validate?.rules, ...flags.rules }
+  };
+  const pattern = positionals[0] ?? options.pattern;
+  if (!pattern) {
+    throw new Error('Missing pattern: pass it as an argument or set validate.pattern in the config');
+  }
+
+  const summary = await validateFeatures(pattern, options);
+  if (summary.featureFiles === 0) {
+    console.warn(`No feature files matched: ${pattern}`);
+    return EXIT_CODES.noMatch;
+  }
+  if (summary.fileErrors.length) {
+    return EXIT_CODES.error;
+  }
+  return summary.errorCount ? EXIT_CODES.checkFailed : EXIT_CODES.success;
+}
+
+async function runInventory(args: string[]): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, INVENTORY_FLAGS);
+  if (values.help) {
+    console.log(commandUsage('inventory', INVENTORY_FLAGS, '[pattern]'));
+    return EXIT_CODES.success;
+  }
+
+  const config = resolveProfile(loadConfig(values.config as string | undefined), values.profile as string | undefined);
+  const options: Partial<InventoryConfig> = { ...config.inventory, ...flagsToOptions(values, INVENTORY_FLAGS) };
+  const pattern = positionals[0] ?? options.pattern;
+  if (!pattern) {
+    throw new Error('Missing pattern: pass it as an argument or set inventory.pattern in the config');
+  }
+
+  const summary = await exportInventory(pattern, options);
+  if (!options.output) {
+    process.stdout.write(summary.content);
+  }
+  if (summary.fileErrors.length) {
+    return EXIT_CODES.error;
+  }
+  if (summary.featureFiles === 0) {
+    console.warn(`No feature files matched: ${pattern}`);
+    return EXIT_CODES.noMatch;
+  }
+  return EXIT_CODES.success;
+}
+
+// --------------------------------------------------------------------------
+// Argument helpers
+// --------------------------------------------------------------------------
+
+function parseCommandArgs<T>(args: string[], flags: FlagTable<T>): { values: FlagValues; positionals: string[] } {
+  const options: NonNullable<ParseArgsConfig['options']> = { ...COMMON_FLAGS };
+  for (const [name, spec] of Object.entries(flags)) {
+    options[name] = { type: spec.type === 'boolean' ? 'boolean' : 'string', multiple: spec.multiple ?? false };
+    if (spec.short) {
+      options[name].short = spec.short;
+    }
+    if (spec.negatable) {
+      options[`no-${name}`] = { type: 'boolean' };
+    }
+  }
+
+  const { values, positionals } = parseArgs({ args, options, allowPositionals: true, strict: true });
+  return { values: values as FlagValues, positionals };
+}
+
+function flagsToOptions<T>(values: FlagValues, flags: FlagTable<T>): Partial<T> {
+  const result: Partial<T> = {};
+  for (const [name, spec] of Object.entries(flags)) {
+    const value = values[name];
+    if (value !== undefined) {
+      if (spec.parse) {
+        result[spec.key] = spec.parse(value as string | string[]);
+      } else {
+        result[spec.key] = (spec.type === 'number' ? parseNumberFlag(name, value as string) : value) as T[keyof T];
+      }
+    }
+    if (spec.negatable && values[`no-${name}`]) {
+      result[spec.key] = false as T[keyof T];
+    }
+  }
+  return result;
+}
+
+function parseNumberFlag(name: string, value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed)) {
+    throw new Error(`--${name} expects a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses `--rule <rule>=<severity>` flags; unknown rules and severities are rejected by the validator.
+ */
+function parseRuleFlags(values: string[]): Partial<Record<ValidationRuleId, RuleSeverity>> {
+  const rules: Partial<Record<ValidationRuleId, RuleSeverity>> = {};
+  for (const value of values) {
+    const [rule, severity] = value.split('=');
+    if (!rule || !severity) {
+      throw new Error(`--rule expects <rule>=error|warning|off, got "${value}"`);
+    }
+    rules[rule as ValidationRuleId] = severity as RuleSeverity;
+  }
+  return rules;
+}
+
+function commandUsage<T>(command: string, flags: FlagTable<T>, positional = ''): string {
+  const lines = [`Usage: gherkin-utils ${command} [options] ${positional}`.trimEnd(), '', 'Options:'];
+  const rows: [string, string][] = Object.entries(flags).map(([name, spec]) => {
+    const short = spec.short ? `-${spec.short}, ` : '    ';
+    const value = spec.type === 'boolean' ? '' : ' <value>';
+    const negation = spec.negatable ? ` | --no-${name}` : '';
+    return [`${short}--${name}${value}${negation}`, spec.description];
+  });
+  rows.push(['-c, --config <file>', 'Config file (default: gherkin-utils.config.json)']);
+  rows.push(['-p, --profile <name>', 'Named profile from the config file']);
+  rows.push(['-h, --help', 'Show this help']);
+
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  rows.forEach(([flag, description]) => lines.push(`  ${flag.padEnd(width)}  ${description}`));
+  return lines.join('\n');
+}
+
+function usage(): string {
+  return [
+    'Usage: gherkin-utils <command> [options]',
+    '',
+    'Commands:',
+    '  split      Split scenarios and Examples rows into one .feature file each',
+    '  convert    Convert Scenario Outlines into Scenarios (in place, or into --out-dir)',
+    '  fold       Fold scenarios differing only in literal values into Scenario Outlines',
+    '  remap      Point a Cucumber report of split files back to the original feature files',
+    '  validate   Report problems in Scenario Outlines and Examples (file:line:column, rule id)',
+    '  inventory  List every test case (outline rows expanded) as JSON, CSV or Markdown',
+    '',
+    'Run "gherkin-utils <command> --help" for the options of a command.',
+    '',
+    `Exit codes: ${EXIT_CODES.success} success, ${EXIT_CODES.noMatch} nothing matched, ${EXIT_CODES.error} errors, ` +
+      `${EXIT_CODES.checkFailed} convert --check found unconverted files or validate found errors`
+  ].join('\n');
+}
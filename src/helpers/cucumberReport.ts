@@ -0,0 +1,174 @@
+import * as messages from '@cucumber/messages';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ExternalExamplesError } from './errors';
+import { collectScenarioEntries, indexAstNodes } from './gherkinUtils';
+import { dataRowSource, mergeExternalExamples, readDataFileSync, DATA_TAG_PREFIX } from './externalExamples';
+import { toManifestPath } from './manifest';
+import { parseFeatureSource } from './parseUtils';
+
+/*
+ * Minimal typings of the Cucumber JSON report (`--format json`).
+ * Unknown fields are kept as they are when a report is rewritten.
+ */
+
+export interface CucumberJsonTag {
+  name: string;
+  line?: number;
+}
+
+export interface CucumberJsonStepArgument {
+  content?: string;
+  line?: number;
+  rows?: { cells: string[] }[];
+}
+
+export interface CucumberJsonStep {
+  keyword: string;
+  line?: number;
+  name?: string;
+  arguments?: CucumberJsonStepArgument[];
+  result?: { status: string; duration?: number; error_message?: string };
+  [key: string]: unknown;
+}
+
+export interface CucumberJsonElement {
+  id: string;
+  keyword: string;
+  line: number;
+  name: string;
+  steps: CucumberJsonStep[];
+  tags?: CucumberJsonTag[];
+  type?: string;
+  [key: string]: unknown;
+}
+
+export interface CucumberJsonFeature {
+  id: string;
+  uri: string;
+  keyword: string;
+  line: number;
+  name: string;
+  tags?: CucumberJsonTag[];
+  elements: CucumberJsonElement[];
+  [key: string]: unknown;
+}
+
+/**
+ * Whether a report file holds messages (NDJSON) rather than a Cucumber JSON array.
+ */
+export function isMessagesReport(reportPath: string): boolean {
+  const extension = path.extname(reportPath).toLowerCase();
+  if (extension === '.ndjson' || extension === '.jsonl') {
+    return true;
+  }
+  return !fs.readFileSync(reportPath, 'utf8').trimStart().startsWith('[');
+}
+
+export function readCucumberJson(reportPath: string): CucumberJsonFeature[] {
+  return fs.readJsonSync(reportPath) as CucumberJsonFeature[];
+}
+
+export function parseMessages(ndjson: string): messages.Envelope[] {
+  return ndjson
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => messages.parseEnvelope(line));
+}
+
+export function formatMessages(envelopes: readonly messages.Envelope[]): string {
+  return envelopes.map((envelope) => JSON.stringify(envelope)).join('\n') + '\n';
+}
+
+/**
+ * Reads how long every scenario took in a previous run, in milliseconds, keyed by
+ * `<uri>:<line>` (the Examples row line for outline rows, as Cucumber reports them).
+ * The rows of `@data:` files all sit on the line of their tag: in a messages report of the original
+ * files (see `remapMessages`), they are keyed by `<uri>:<dataFile>:<dataRowIndex>` instead; a
+ * Cucumber JSON report only has their line.
+ */
+export function readScenarioDurations(reportPath: string): Map<string, number> {
+  const durations = new Map<string, number>();
+
+  if (!isMessagesReport(reportPath)) {
+    for (const feature of readCucumberJson(reportPath)) {
+      for (const element of feature.elements ?? []) {
+        if (element.type !== undefined && element.type !== 'scenario') {
+          continue; // e.g. a "background" element of older formatters
+        }
+        const nanoseconds = element.steps.reduce((sum, step) => sum + (step.result?.duration ?? 0), 0);
+        durations.set(`${toManifestPath(feature.uri)}:${element.line}`, nanoseconds / 1e6);
+      }
+    }
+    return durations;
+  }
+
+  const envelopes = parseMessages(fs.readFileSync(reportPath, 'utf8'));
+  const sources = new Map<string, string>();
+  const nodeLines = new Map<string, number>();
+  const dataRows = new Map<string, string>();
+  const pickles = new Map<string, messages.Pickle>();
+  const testCases = new Map<string, messages.TestCase>();
+  const started = new Map<string, messages.TestCaseStarted>();
+
+  for (const envelope of envelopes) {
+    if (envelope.source) sources.set(envelope.source.uri, envelope.source.data);
+    if (envelope.gherkinDocument?.feature) {
+      indexAstNodes(envelope.gherkinDocument.feature).lineById.forEach((line, id) => nodeLines.set(id, line));
+      const source = sources.get(envelope.gherkinDocument.uri ?? '');
+      if (source?.includes(DATA_TAG_PREFIX)) {
+        findDataRows(envelope.gherkinDocument, source).forEach((key, id) => dataRows.set(id, key));
+      }
+    }
+    if (envelope.pickle) pickles.set(envelope.pickle.id, envelope.pickle);
+    if (envelope.testCase) testCases.set(envelope.testCase.id, envelope.testCase);
+    if (envelope.testCaseStarted) started.set(envelope.testCaseStarted.id, envelope.testCaseStarted);
+
+    const finished = envelope.testCaseFinished;
+    const start = finished && started.get(finished.testCaseStartedId);
+    const pickle = start && pickles.get(testCases.get(start.testCaseId)?.pickleId ?? '');
+    if (!finished || finished.willBeRetried || !start || !pickle) {
+      continue;
+    }
+    const nodeId = pickle.astNodeIds[pickle.astNodeIds.length - 1];
+    const milliseconds =
+      messages.TimeConversion.timestampToMillisecondsSinceEpoch(finished.timestamp) -
+      messages.TimeConversion.timestampToMillisecondsSinceEpoch(start.timestamp);
+    durations.set(`${toManifestPath(pickle.uri)}:${dataRows.get(nodeId) ?? nodeLines.get(nodeId)}`, milliseconds);
+  }
+
+  return durations;
+}
+
+/**
+ * `<dataFile>:<dataRowIndex>` of the rows of `@data:` files in a document holding them (as the
+ * remapped documents do), by row id. The source is merged again with the data files on disk, whose
+ * rows come in the same order as in the document; none are found when a data file is missing or invalid.
+ */
+function findDataRows(gherkinDocument: messages.GherkinDocument, source: string): Map<string, string> {
+  const dataRows = new Map<string, string>();
+  const uri = gherkinDocument.uri ?? '';
+  let merged: messages.Feature | undefined;
+  try {
+    const parsed = parseFeatureSource(source, uri).gherkinDocument.feature;
+    merged = parsed && mergeExternalExamples(parsed, uri, { readDataFile: readDataFileSync });
+  } catch (error) {
+    if (!(error instanceof ExternalExamplesError)) {
+      throw error;
+    }
+    return dataRows;
+  }
+
+  const rowsOf = (feature: messages.Feature) =>
+    collectScenarioEntries(feature).flatMap(({ scenario }) =>
+      scenario.examples.flatMap((examples) => examples.tableBody)
+    );
+  const mergedRows = merged ? rowsOf(merged) : [];
+  rowsOf(gherkinDocument.feature!).forEach((row, i) => {
+    const dataRow = mergedRows[i] && dataRowSource(mergedRows[i]);
+    if (dataRow) {
+      dataRows.set(row.id, `${toManifestPath(dataRow.dataFile)}:${dataRow.dataRowIndex}`);
+    }
+  });
+  return dataRows;
+}
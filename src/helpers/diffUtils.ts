@@ -0,0 +1,137 @@
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Largest LCS table (in cells, 4 bytes each) built for a diff; above it, the changed lines are
+ * diffed as a whole-block replacement instead of exhausting the memory.
+ */
+const MAX_LCS_CELLS = 1 << 24;
+
+/**
+ * Builds a unified diff (as printed by `diff -u`) between two texts.
+ * Returns an empty string when both texts are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  // Group the changes into hunks, each surrounded by up to `context` unchanged lines
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === ' ') {
+      i++;
+      continue;
+    }
+
+    const start = Math.max(0, i - context);
+    let end = i;
+    while (end < ops.length) {
+      if (ops[end].type !== ' ') {
+        end++;
+        continue;
+      }
+      let nextChange = end;
+      while (nextChange < ops.length && ops[nextChange].type === ' ') nextChange++;
+      if (nextChange === ops.length || nextChange - end > context * 2) {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+      end = nextChange;
+    }
+
+    // Line numbers of the hunk start in both texts
+    let oldStart = 1;
+    let newStart = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].type !== '+') oldStart++;
+      if (ops[k].type !== '-') newStart++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    lines.push(`@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`);
+    hunk.forEach((op) => lines.push(`${op.type}${op.line}`));
+    i = end;
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range points at the line before it, as in GNU diff
+  return count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line diff based on the longest common subsequence, after trimming the common prefix and suffix.
+ * When the lines left in between are too many for the LCS table (see {@link MAX_LCS_CELLS}), they are
+ * all removed and then all added.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+  const ops: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: ' ', line }));
+  const suffixOps = (): DiffOp[] => a.slice(a.length - suffix).map((line) => ({ type: ' ', line }));
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    midA.forEach((line) => ops.push({ type: '-', line }));
+    midB.forEach((line) => ops.push({ type: '+', line }));
+    return [...ops, ...suffixOps()];
+  }
+
+  // lcs[i * (m + 1) + j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      ops.push({ type: ' ', line: midA[i++] });
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      ops.push({ type: '-', line: midA[i++] });
+    } else {
+      ops.push({ type: '+', line: midB[j++] });
+    }
+  }
+  return [...ops, ...suffixOps()];
+}
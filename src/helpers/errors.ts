@@ -0,0 +1,53 @@
+/**
+ * Raised when Gherkin source cannot be parsed; carries the location reported by the parser.
+ */
+export class GherkinParseError extends Error {
+  constructor(
+    message: string,
+    readonly uri: string,
+    readonly line?: number,
+    readonly column?: number
+  ) {
+    super(message);
+    this.name = 'GherkinParseError';
+  }
+}
+
+/**
+ * Raised when the external Examples data of a `@data:<file>` tag can't be loaded or doesn't fit
+ * its Examples table; carries the location of the tag and the resolved data file.
+ * A subclass of {@link GherkinParseError}, so the file is reported like one that can't be parsed.
+ */
+export class ExternalExamplesError extends GherkinParseError {
+  constructor(
+    message: string,
+    uri: string,
+    readonly dataFile: string,
+    line?: number,
+    column?: number
+  ) {
+    super(message, uri, line, column);
+    this.name = 'ExternalExamplesError';
+  }
+}
+
+/**
+ * Raised when a feature file (or a generated file) can't be read or written.
+ * The error of the filesystem is kept as `cause`.
+ */
+export class FeatureIoError extends Error {
+  constructor(
+    message: string,
+    readonly path: string,
+    readonly operation: 'read' | 'write',
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'FeatureIoError';
+  }
+}
+
+/**
+ * An error reported for one file in the summary of a run; the other files are still processed.
+ */
+export type FeatureFileError = GherkinParseError | FeatureIoError;
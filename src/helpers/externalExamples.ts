@@ -0,0 +1,319 @@
+import * as messages from '@cucumber/messages';
+import { IdGenerator } from '@cucumber/messages';
+import { dialects } from '@cucumber/gherkin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExternalExamplesError } from './errors';
+import { collectScenarioEntries } from './gherkinUtils';
+import { withIoError } from './runResult';
+
+/** Tag referencing an external data file, e.g. `@data:./users.csv`. */
+export const DATA_TAG_PREFIX = '@data:';
+
+/**
+ * Columns and rows of an external data file, all values as strings.
+ */
+interface DataTable {
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Options of the in-memory APIs merging `@data:` files:
+ * - readDataFile?: reads a data file, given its absolute path, or returns `undefined` when it does
+ *   not exist. Without it nothing is read from disk, and a `@data:` tag fails like a missing file;
+ *   the file-based APIs read the data files from disk
+ */
+export interface ExternalDataOptions {
+  readDataFile?: (dataFile: string) => string | undefined;
+}
+
+/**
+ * The data file and (0-based) row index of every row merged from a data file.
+ */
+const dataRowSources = new WeakMap<messages.TableRow, { dataFile: string; dataRowIndex: number }>();
+
+/**
+ * Merges the rows of the CSV/JSON files referenced by `@data:<file>` tags into the Examples tables.
+ *
+ * - On an Examples block, the rows are appended to its table. The file must have every column of
+ *   the table header (extra columns are ignored); without a table, the file's columns become the header.
+ * - On a Scenario Outline, the rows form a new Examples block, named after the file.
+ *
+ * Paths are relative to the folder of `uri`. The `@data:` tags are removed, so the printed feature
+ * holds the rows inline. The merged rows are located at their `@data:` tag, and
+ * {@link dataRowSource} tells them apart.
+ * Returns `feature` itself when it has no `@data:` tag.
+ *
+ * @throws {ExternalExamplesError} for a missing or invalid data file, or a missing column.
+ */
+export function mergeExternalExamples(
+  feature: messages.Feature,
+  uri: string,
+  options: ExternalDataOptions = {}
+): messages.Feature {
+  const tagged = collectScenarioEntries(feature).some(({ scenario }) =>
+    [...scenario.tags, ...scenario.examples.flatMap((examples) => examples.tags)].some(isDataTag)
+  );
+  if (!tagged) {
+    return feature;
+  }
+
+  const newId = IdGenerator.uuid();
+  const examplesKeyword = (dialects[feature.language] ?? dialects.en).examples[0];
+
+  // Appends the rows of every `@data:` tag of `examples` to its table
+  const mergeInto = (examples: messages.Examples, tags: readonly messages.Tag[]): messages.Examples =>
+    tags.reduce<messages.Examples>((merged, tag) => {
+      const dataFile = path.resolve(path.dirname(uri), dataPath(tag));
+      const fail = (message: string) =>
+        new ExternalExamplesError(`${message} (${tag.name})`, uri, dataFile, tag.location.line, tag.location.column);
+
+      if (!options.readDataFile) {
+        throw fail(`Examples data file not read, no readDataFile option given: ${dataFile}`);
+      }
+      let data: DataTable;
+      try {
+        const text = options.readDataFile(dataFile);
+        if (text === undefined) {
+          throw new Error(`Examples data file not found: ${dataFile}`);
+        }
+        data = parseDataTable(text, dataFile);
+      } catch (error) {
+        throw fail(error instanceof Error ? error.message : String(error));
+      }
+
+      const toRow = (values: string[]): messages.TableRow => ({
+        id: newId(),
+        location: tag.location,
+        cells: values.map((value) => ({ location: tag.location, value }))
+      });
+      const header = merged.tableHeader ?? toRow(data.columns);
+      const indexes = header.cells.map((cell) => {
+        const index = data.columns.indexOf(cell.value);
+        if (index < 0) {
+          throw fail(
+            `Column "${cell.value}" of the Examples at line ${examples.location.line} is missing in ${dataFile} (columns: ${data.columns.join(', ')})`
+          );
+        }
+        return index;
+      });
+
+      const rows = data.rows.map((values, dataRowIndex) => {
+        const row = toRow(indexes.map((index) => values[index]));
+        dataRowSources.set(row, { dataFile, dataRowIndex });
+        return row;
+      });
+      return { ...merged, tableHeader: header, tableBody: [...merged.tableBody, ...rows] };
+    }, examples);
+
+  const mergeScenario = (scenario: messages.Scenario): messages.Scenario => {
+    const examples = scenario.examples.map((block) => {
+      const dataTags = block.tags.filter(isDataTag);
+      return dataTags.length ? mergeInto({ ...block, tags: block.tags.filter((t) => !isDataTag(t)) }, dataTags) : block;
+    });
+
+    for (const tag of scenario.tags.filter(isDataTag)) {
+      const block: messages.Examples = {
+        id: newId(),
+        location: tag.location,
+        tags: [],
+        keyword: examplesKeyword,
+        name: path.basename(dataPath(tag)),
+        description: '',
+        tableBody: []
+      };
+      examples.push(mergeInto(block, [tag]));
+    }
+    return { ...scenario, tags: scenario.tags.filter((t) => !isDataTag(t)), examples };
+  };
+
+  return mapScenarios(feature, mergeScenario);
+}
+
+/**
+ * The data file (absolute path) and 0-based index in it of a row merged by {@link mergeExternalExamples},
+ * `undefined` for a row written in the source.
+ */
+export function dataRowSource(row: messages.TableRow): { dataFile: string; dataRowIndex: number } | undefined {
+  return dataRowSources.get(row);
+}
+
+/**
+ * Removes the `@data:` tags of a feature, without merging their rows. Comments anchored on the
+ * result (see `anchorComments`) attach to the nodes printed in place of the tags.
+ */
+export function removeDataTags(feature: messages.Feature): messages.Feature {
+  return mapScenarios(feature, (scenario) => ({
+    ...scenario,
+    tags: scenario.tags.filter((tag) => !isDataTag(tag)),
+    examples: scenario.examples.map((block) => ({ ...block, tags: block.tags.filter((tag) => !isDataTag(tag)) }))
+  }));
+}
+
+function mapScenarios(
+  feature: messages.Feature,
+  map: (scenario: messages.Scenario) => messages.Scenario
+): messages.Feature {
+  return {
+    ...feature,
+    children: feature.children.map((child) => {
+      if (child.scenario) {
+        return { ...child, scenario: map(child.scenario) };
+      }
+      if (child.rule) {
+        const children = child.rule.children.map((ruleChild) =>
+          ruleChild.scenario ? { ...ruleChild, scenario: map(ruleChild.scenario) } : ruleChild
+        );
+        return { ...child, rule: { ...child.rule, children } };
+      }
+      return child;
+    })
+  };
+}
+
+/**
+ * Reads a data file from disk, for {@link ExternalDataOptions} `readDataFile`.
+ */
+export function readDataFileSync(dataFile: string): string | undefined {
+  try {
+    return fs.readFileSync(dataFile, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the data files referenced by `@data:` tags in a source from disk, without blocking the other
+ * reads of a pool, by absolute path; a missing file maps to `undefined` (reported when merging).
+ * Pass `(dataFile) => dataFiles.get(dataFile)` as `readDataFile`.
+ *
+ * @throws {FeatureIoError} for a data file that exists but can't be read.
+ */
+export async function readReferencedDataFiles(source: string, uri: string): Promise<Map<string, string | undefined>> {
+  const dataFiles = referencedDataFiles(source, uri);
+  const contents = await Promise.all(
+    dataFiles.map((dataFile) =>
+      withIoError(dataFile, 'read', () =>
+        fs.promises.readFile(dataFile, 'utf8').catch((error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') {
+            return undefined;
+          }
+          throw error;
+        })
+      )
+    )
+  );
+  return new Map(dataFiles.map((dataFile, i) => [dataFile, contents[i]]));
+}
+
+/**
+ * Absolute paths of the data files referenced by `@data:` tags in a source, found without parsing it
+ * (e.g. to tell whether cached outputs are still up to date).
+ */
+export function referencedDataFiles(source: string, uri: string): string[] {
+  const paths = [...source.matchAll(/(?:^|\s)@data:(\S+)/g)].map((match) => path.resolve(path.dirname(uri), match[1]));
+  return [...new Set(paths)];
+}
+
+function isDataTag(tag: messages.Tag): boolean {
+  return tag.name.startsWith(DATA_TAG_PREFIX);
+}
+
+function dataPath(tag: messages.Tag): string {
+  return tag.name.slice(DATA_TAG_PREFIX.length);
+}
+
+/**
+ * Parses the text of a CSV file (first row: column names) or a JSON file (an array of objects).
+ */
+function parseDataTable(content: string, dataFile: string): DataTable {
+  const text = content.replace(/^\uFEFF/, ''); // byte order mark
+  const extension = path.extname(dataFile).toLowerCase();
+
+  if (extension === '.csv') {
+    const [columns, ...rows] = parseCsv(text);
+    if (!columns?.length) {
+      throw new Error(`No header row in ${dataFile}`);
+    }
+    rows.forEach((row, i) => {
+      if (row.length !== columns.length) {
+        throw new Error(`Row ${i + 2} of ${dataFile} has ${row.length} value(s), expected ${columns.length}`);
+      }
+    });
+    return { columns, rows };
+  }
+
+  if (extension === '.json') {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data) || !data.every((item) => item && typeof item === 'object' && !Array.isArray(item))) {
+      throw new Error(`${dataFile} must hold an array of objects`);
+    }
+    const objects = data as Record<string, unknown>[];
+    const columns = [...new Set(objects.flatMap((item) => Object.keys(item)))];
+    const rows = objects.map((item) => columns.map((column) => stringify(item[column])));
+    return { columns, rows };
+  }
+
+  throw new Error(`Unsupported Examples data file: ${dataFile} (expected .csv or .json)`);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted values may hold commas, quotes as `""`, and line breaks).
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || row.length) {
+    endRow();
+  }
+  return rows;
+}
@@ -0,0 +1,95 @@
+import * as path from 'path';
+import { glob } from 'glob';
+
+/**
+ * A discovered .feature file and the folder its outputs go to,
+ * relative to the output directory (mirrors the source layout).
+ */
+export interface FeatureSource {
+  filePath: string;
+  root: string;
+  outputDir: string;
+}
+
+/**
+ * Recursively finds .feature files under every source root.
+ * - `include`/`exclude` are globs relative to each root.
+ * - Files below `outputDirectory` are skipped, so that an output folder nested in a root never
+ *   has its outputs split again.
+ * - With several roots, each root's outputs are nested under the root's folder name
+ *   (suffixed `_2`, `_3`, ... when two roots share a name) so they never collide.
+ * Files reachable from more than one root are only returned once; results are sorted per root.
+ */
+export function discoverFeatureFiles(
+  roots: string[],
+  include: string[] = ['**/*.feature'],
+  exclude: string[] = [],
+  outputDirectory?: string
+): FeatureSource[] {
+  const outputPrefix = outputDirectory && path.resolve(outputDirectory) + path.sep;
+  const prefixes = makeRootPrefixes(roots);
+  const seen = new Set<string>();
+  const sources: FeatureSource[] = [];
+
+  roots.forEach((root, i) => {
+    const matches = glob.sync(include, { cwd: root, ignore: exclude, nodir: true }).sort();
+    for (const match of matches) {
+      const filePath = path.join(root, match);
+      const absolute = path.resolve(filePath);
+      if (seen.has(absolute) || (outputPrefix && absolute.startsWith(outputPrefix))) {
+        continue;
+      }
+      seen.add(absolute);
+      sources.push({ filePath, root, outputDir: path.join(prefixes[i], path.dirname(match)) });
+    }
+  });
+
+  return sources;
+}
+
+/**
+ * Describes a single file given explicitly: its outputs mirror its location
+ * inside the first root that contains it, or go to the top of the output directory.
+ */
+export function singleFeatureSource(filePath: string, roots: string[]): FeatureSource {
+  const prefixes = makeRootPrefixes(roots);
+  for (let i = 0; i < roots.length; i++) {
+    const relative = path.relative(roots[i], filePath);
+    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return { filePath, root: roots[i], outputDir: path.join(prefixes[i], path.dirname(relative)) };
+    }
+  }
+  return { filePath, root: path.dirname(filePath), outputDir: '' };
+}
+
+/**
+ * Deepest folder containing all the given files (the current directory when there are none).
+ */
+export function commonDirectory(filePaths: string[]): string {
+  if (!filePaths.length) {
+    return process.cwd();
+  }
+
+  let common = path.dirname(path.resolve(filePaths[0]));
+  for (const filePath of filePaths.slice(1)) {
+    const dir = path.dirname(path.resolve(filePath));
+    while (common !== dir && !dir.startsWith(common + path.sep) && path.dirname(common) !== common) {
+      common = path.dirname(common);
+    }
+  }
+  return common;
+}
+
+function makeRootPrefixes(roots: string[]): string[] {
+  if (roots.length <= 1) {
+    return roots.map(() => '');
+  }
+
+  const used = new Map<string, number>();
+  return roots.map((root) => {
+    const name = path.basename(path.resolve(root));
+    const count = (used.get(name) ?? 0) + 1;
+    used.set(name, count);
+    return count === 1 ? name : `${name}_${count}`;
+  });
+}
@@ -0,0 +1,280 @@
+import * as messages from '@cucumber/messages';
+
+/**
+ * A printed line and the line of the source node it was printed from, if any.
+ * `nodeId` is the id of the Scenario or table row printed on the line.
+ */
+export interface PrintedLine {
+  text: string;
+  sourceLine?: number;
+  nodeId?: string;
+}
+
+/** Indentation added per nesting level. */
+const INDENT = '  ';
+
+/**
+ * Comments of a source document, each attached to the line of the nearest node that follows it.
+ * Comments after the last node stay at the end of the file, when its last block (the last
+ * Background, Scenario or Rule) is printed.
+ */
+export interface CommentAnchors {
+  byLine: Map<number, messages.Comment[]>;
+  trailing: messages.Comment[];
+  lastBlockLine?: number;
+}
+
+/**
+ * Prints a Feature AST back to Gherkin text.
+ *
+ * The layout follows the Gherkin Prettier plugin (two spaces per level, aligned tables, a blank
+ * line between blocks), while keeping what the parser needs to read the exact same AST back:
+ * the `# language:` header and keywords of the dialect, escaped table cells, docstring
+ * delimiters and media types, and the relative indentation of descriptions and docstrings.
+ * Tags that were on the same line in the source stay on the same line.
+ *
+ * With `comments` (see {@link anchorComments}), every comment is printed before the node it is
+ * attached to, indented like it; comments of nodes that are not printed are left out.
+ */
+export function printFeature(feature: messages.Feature, comments?: CommentAnchors): string {
+  return (
+    printFeatureLines(feature, comments)
+      .map((line) => line.text)
+      .join('\n') + '\n'
+  );
+}
+
+/**
+ * Same as {@link printFeature}, line by line, with the source line of every node (and comment),
+ * so callers can map lines of the printed text back to the source.
+ */
+export function printFeatureLines(feature: messages.Feature, comments?: CommentAnchors): PrintedLine[] {
+  const lines: PrintedLine[] = [];
+
+  if (feature.language !== 'en') {
+    lines.push({ text: `# language: ${feature.language}` });
+  }
+  lines.push(...printTags(feature.tags, 0));
+  lines.push(printHeader(feature, 0));
+  lines.push(...printDescription(feature.description, 1));
+
+  for (const child of feature.children) {
+    lines.push({ text: '' });
+    if (child.background) lines.push(...printBackground(child.background, 1));
+    if (child.scenario) lines.push(...printScenario(child.scenario, 1));
+    if (child.rule) lines.push(...printRule(child.rule, 1));
+  }
+
+  return comments ? insertComments(lines, comments) : lines;
+}
+
+/**
+ * Attaches the comments of a parsed document to the nodes that follow them.
+ * Pass the document the printed feature was taken from, even when printing only part of it.
+ */
+export function anchorComments(gherkinDocument: messages.GherkinDocument): CommentAnchors {
+  const anchors: CommentAnchors = { byLine: new Map(), trailing: [] };
+  if (!gherkinDocument.feature) {
+    return anchors;
+  }
+
+  // Every line a node starts on (docstring content lines can't follow a comment)
+  const nodeLines = [
+    ...new Set(
+      printFeatureLines(gherkinDocument.feature)
+        .map((line) => line.sourceLine)
+        .filter((line): line is number => line !== undefined)
+    )
+  ].sort((a, b) => a - b);
+  anchors.lastBlockLine = lastBlockLine(gherkinDocument.feature);
+
+  for (const comment of gherkinDocument.comments) {
+    const anchor = nodeLines.find((line) => line > comment.location.line);
+    if (anchor === undefined) {
+      anchors.trailing.push(comment);
+    } else {
+      anchors.byLine.set(anchor, [...(anchors.byLine.get(anchor) ?? []), comment]);
+    }
+  }
+  return anchors;
+}
+
+// --------------------------------------------------------------------------
+// Blocks
+// --------------------------------------------------------------------------
+
+function printRule(rule: messages.Rule, level: number): PrintedLine[] {
+  const lines = [...printTags(rule.tags, level), printHeader(rule, level)];
+  lines.push(...printDescription(rule.description, level + 1));
+
+  for (const child of rule.children) {
+    lines.push({ text: '' });
+    if (child.background) lines.push(...printBackground(child.background, level + 1));
+    if (child.scenario) lines.push(...printScenario(child.scenario, level + 1));
+  }
+  return lines;
+}
+
+function printBackground(background: messages.Background, level: number): PrintedLine[] {
+  return [printHeader(background, level), ...printStepsBlock(background, level + 1)];
+}
+
+function printScenario(scenario: messages.Scenario, level: number): PrintedLine[] {
+  const lines = [...printTags(scenario.tags, level), { ...printHeader(scenario, level), nodeId: scenario.id }];
+  lines.push(...printStepsBlock(scenario, level + 1));
+
+  for (const examples of scenario.examples) {
+    lines.push({ text: '' });
+    lines.push(...printTags(examples.tags, level + 1));
+    lines.push(printHeader(examples, level + 1));
+    lines.push(...printDescription(examples.description, level + 2));
+    const rows = examples.tableHeader ? [examples.tableHeader, ...examples.tableBody] : examples.tableBody;
+    lines.push(...printTable(rows, level + 2));
+  }
+  return lines;
+}
+
+/**
+ * Description and steps of a Background or Scenario, separated by a blank line.
+ */
+function printStepsBlock(block: messages.Background | messages.Scenario, level: number): PrintedLine[] {
+  const lines = printDescription(block.description, level);
+  if (lines.length && block.steps.length) {
+    lines.push({ text: '' });
+  }
+  for (const step of block.steps) {
+    lines.push({ text: `${indent(level)}${step.keyword}${step.text}`, sourceLine: step.location.line });
+    if (step.docString) lines.push(...printDocString(step.docString, level + 1));
+    if (step.dataTable) lines.push(...printTable(step.dataTable.rows, level + 1));
+  }
+  return lines;
+}
+
+// --------------------------------------------------------------------------
+// Lines
+// --------------------------------------------------------------------------
+
+function printHeader(node: { keyword: string; name: string; location: messages.Location }, level: number): PrintedLine {
+  const name = node.name ? ` ${node.name}` : '';
+  return { text: `${indent(level)}${node.keyword}:${name}`, sourceLine: node.location.line };
+}
+
+/**
+ * One line per source line of tags.
+ */
+function printTags(tags: readonly messages.Tag[], level: number): PrintedLine[] {
+  const lines: PrintedLine[] = [];
+  tags.forEach((tag, i) => {
+    const previous = lines[lines.length - 1];
+    if (i > 0 && previous.sourceLine === tag.location.line) {
+      previous.text += ` ${tag.name}`;
+    } else {
+      lines.push({ text: `${indent(level)}${tag.name}`, sourceLine: tag.location.line });
+    }
+  });
+  return lines;
+}
+
+/**
+ * Re-indents a description, keeping the indentation of its lines relative to each other.
+ */
+function printDescription(description: string | undefined, level: number): PrintedLine[] {
+  if (!description?.trim()) {
+    return [];
+  }
+  const descriptionLines = description.split('\n');
+  const margin = Math.min(
+    ...descriptionLines.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length)
+  );
+  return descriptionLines.map((line) => ({ text: line.trim() ? `${indent(level)}${line.slice(margin)}` : '' }));
+}
+
+/**
+ * Prints a DocString with its original delimiter (`"""` or backticks) and media type.
+ * Occurrences of the delimiter inside the content are escaped, as the parser expects.
+ */
+function printDocString(docString: messages.DocString, level: number): PrintedLine[] {
+  const delimiter = docString.delimiter || '"""';
+  const escaped = delimiter
+    .split('')
+    .map((char) => `\\${char}`)
+    .join('');
+  const docLine = docString.location.line;
+
+  const lines: PrintedLine[] = [
+    { text: `${indent(level)}${delimiter}${docString.mediaType ?? ''}`, sourceLine: docLine }
+  ];
+  docString.content.split('\n').forEach((line, i) => {
+    const text = line.split(delimiter).join(escaped);
+    lines.push({ text: text ? `${indent(level)}${text}` : '', sourceLine: docLine + 1 + i });
+  });
+  lines.push({ text: `${indent(level)}${delimiter}` });
+  return lines;
+}
+
+/**
+ * Prints table rows with escaped cells, padded so that the columns line up.
+ */
+function printTable(rows: readonly messages.TableRow[], level: number): PrintedLine[] {
+  const cells = rows.map((row) => row.cells.map((cell) => escapeTableCell(cell.value)));
+  const widths: number[] = [];
+  cells.forEach((row) => row.forEach((cell, i) => (widths[i] = Math.max(widths[i] ?? 0, cell.length))));
+
+  return rows.map((row, r) => ({
+    text: `${indent(level)}| ${cells[r].map((cell, i) => cell.padEnd(widths[i])).join(' | ')} |`,
+    sourceLine: row.location.line,
+    nodeId: row.id
+  }));
+}
+
+function escapeTableCell(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\') // Escape all backslashes first
+    .replace(/\|/g, '\\|') // Escape `|` as `\|`
+    .replace(/\n/g, '\\n'); // Escape newlines properly
+}
+
+/**
+ * Inserts the anchored comments before every printed line of their node.
+ */
+function insertComments(lines: PrintedLine[], comments: CommentAnchors): PrintedLine[] {
+  const result: PrintedLine[] = [];
+  const printComments = (anchored: messages.Comment[], margin: string) =>
+    anchored.forEach((comment) =>
+      result.push({ text: `${margin}${comment.text.trim()}`, sourceLine: comment.location.line })
+    );
+
+  let lastBlockPrinted = false;
+  for (const line of lines) {
+    const anchored = line.sourceLine === undefined ? undefined : comments.byLine.get(line.sourceLine);
+    if (anchored) {
+      printComments(anchored, line.text.slice(0, line.text.length - line.text.trimStart().length));
+    }
+    lastBlockPrinted ||= line.sourceLine !== undefined && line.sourceLine === comments.lastBlockLine;
+    result.push(line);
+  }
+
+  if (lastBlockPrinted) {
+    printComments(comments.trailing, '');
+  }
+  return result;
+}
+
+/**
+ * Header line of the last Background, Scenario or (empty) Rule of a feature.
+ */
+function lastBlockLine(feature: messages.Feature): number {
+  let line = feature.location.line;
+  for (const child of feature.children) {
+    const ruleChildren = child.rule?.children ?? [];
+    const lastRuleChild = ruleChildren[ruleChildren.length - 1];
+    const block =
+      child.background ?? child.scenario ?? lastRuleChild?.background ?? lastRuleChild?.scenario ?? child.rule;
+    line = block?.location.line ?? line;
+  }
+  return line;
+}
+
+function indent(level: number): string {
+  return INDENT.repeat(level);
+}
@@ -1,4 +1,5 @@
 import * as messages from '@cucumber/messages';
+import { dialects } from '@cucumber/gherkin';
 
 interface ScenarioEntry {
   scenario: messages.Scenario;
@@ -55,6 +56,35 @@ export function collectScenarioEntries(feature: messages.Feature): ScenarioEntry
   return entries;
 }
 
+/**
+ * Makes every scenario self-contained: the steps of the Feature-level backgrounds, then of the
+ * Rule-level ones (data tables and docstrings included), are copied at the top of each scenario,
+ * in the order Cucumber runs them, and the Background blocks are removed.
+ */
+export function inlineBackgrounds(feature: messages.Feature): messages.Feature {
+  const backgroundSteps = (children: readonly { background?: messages.Background }[]) =>
+    children.flatMap((child) => child.background?.steps ?? []);
+  const withSteps = <T extends { scenario?: messages.Scenario }>(child: T, steps: messages.Step[]): T =>
+    child.scenario && steps.length
+      ? { ...child, scenario: { ...child.scenario, steps: [...steps, ...child.scenario.steps] } }
+      : child;
+
+  const featureSteps = backgroundSteps(feature.children);
+  const children = feature.children
+    .filter((child) => !child.background)
+    .map((child) => {
+      if (!child.rule) {
+        return withSteps(child, featureSteps);
+      }
+      const steps = [...featureSteps, ...backgroundSteps(child.rule.children)];
+      const ruleChildren = child.rule.children
+        .filter((ruleChild) => !ruleChild.background)
+        .map((ruleChild) => withSteps(ruleChild, steps));
+      return { ...child, rule: { ...child.rule, children: ruleChildren } };
+    });
+  return { ...feature, children };
+}
+
 /**
  Expand scenario outline rows, preserving scenario name + placeholders
  Expands a Scenario Outline into multiple individual scenarios (one per example row).
@@ -120,3 +150,111 @@ export function gatherAllTagNames(
   const examplesTags = scenario.examples ? scenario.examples.flatMap((ex) => ex.tags?.map((t) => t.name) ?? []) : []; // ✅ Include Examples tags
   return [...featureTags, ...ruleTags, ...scenarioTags, ...examplesTags];
 }
+
+/**
+ * Ids of the AST nodes a pickle can refer to, indexed both ways by source line.
+ * Tags are looked up by `<line>:<name>` since several tags can share a line.
+ */
+export interface AstNodeIndex {
+  lineById: Map<string, number>;
+  idByLine: Map<number, string>;
+  tagIdByKey: Map<string, string>;
+  parentIdById: Map<string, string>;
+}
+
+/**
+ * Indexes the scenarios, backgrounds, rules, steps, Examples rows and tags of a Feature.
+ * `parentIdById` gives the Scenario of every scenario step and the Scenario Outline of every Examples row.
+ */
+export function indexAstNodes(feature: messages.Feature): AstNodeIndex {
+  const index: AstNodeIndex = {
+    lineById: new Map(),
+    idByLine: new Map(),
+    tagIdByKey: new Map(),
+    parentIdById: new Map()
+  };
+
+  const addNode = (node: { id: string; location: messages.Location }) => {
+    index.lineById.set(node.id, node.location.line);
+    index.idByLine.set(node.location.line, node.id);
+  };
+  const addTags = (tags: readonly messages.Tag[]) => {
+    tags.forEach((tag) => {
+      index.lineById.set(tag.id, tag.location.line);
+      index.tagIdByKey.set(`${tag.location.line}:${tag.name}`, tag.id);
+    });
+  };
+  const addBackground = (background: messages.Background) => {
+    addNode(background);
+    background.steps.forEach(addNode);
+  };
+  const addScenario = (scenario: messages.Scenario) => {
+    addNode(scenario);
+    addTags(scenario.tags);
+    const addChild = (node: { id: string; location: messages.Location }) => {
+      addNode(node);
+      index.parentIdById.set(node.id, scenario.id);
+    };
+    scenario.steps.forEach(addChild);
+    scenario.examples.forEach((examples) => {
+      addTags(examples.tags);
+      examples.tableBody.forEach(addChild);
+    });
+  };
+
+  addTags(feature.tags);
+  for (const child of feature.children) {
+    if (child.background) addBackground(child.background);
+    if (child.scenario) addScenario(child.scenario);
+    if (child.rule) {
+      addNode(child.rule);
+      addTags(child.rule.tags);
+      for (const ruleChild of child.rule.children) {
+        if (ruleChild.background) addBackground(ruleChild.background);
+        if (ruleChild.scenario) addScenario(ruleChild.scenario);
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * The `Scenario` keyword of a Gherkin dialect, e.g. `Szenario` for `de`.
+ * Dialects list the newer `Example` synonym first, so the last keyword is the classic one.
+ */
+export function scenarioKeyword(language: string): string {
+  const keywords = (dialects[language] ?? dialects.en).scenario;
+  return keywords[keywords.length - 1];
+}
+
+/**
+ * Whether `keyword` is a `Scenario Outline` keyword of the dialect (an outline may lack Examples).
+ */
+export function isScenarioOutlineKeyword(keyword: string, language: string): boolean {
+  return (dialects[language] ?? dialects.en).scenarioOutline.includes(keyword);
+}
+
+/**
+ * A `<placeholder>` found in a text, with its (0-based) offset.
+ */
+export interface PlaceholderMatch {
+  name: string;
+  index: number;
+}
+
+/**
+ * Finds the `<placeholder>`s of a text, as Cucumber replaces them from the Examples columns.
+ */
+export function findPlaceholders(text: string): PlaceholderMatch[] {
+  return [...text.matchAll(/<([^>]+)>/g)].map((match) => ({ name: match[1], index: match.index! }));
+}
+
+/**
+ * Replaces placeholders in text with values from Examples.
+ */
+export function replacePlaceholders(text: string, placeholderMap: Record<string, string>): string {
+  return text.replace(/<([^>]+)>/g, (_, placeholder) => {
+    return placeholderMap[placeholder] ?? `<${placeholder}>`; // Keep as is if no value found
+  });
+}
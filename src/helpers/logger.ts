@@ -0,0 +1,23 @@
+/**
+ * Receives the progress messages of the utilities (the emoji output of the CLI).
+ * Pass {@link silentLogger} to silence them, or an adapter to route them into another logger.
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/** Prints to the console; the default. */
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+  error: (message) => console.error(message)
+};
+
+/** Drops every message. */
+export const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
@@ -0,0 +1,114 @@
+import * as messages from '@cucumber/messages';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { dataRowSource } from './externalExamples';
+
+/**
+ * Where a generated scenario comes from.
+ * Examples fields are only set for Scenario Outline rows; `rowIndex` is 0-based within its Examples block.
+ * Rows merged from a `@data:` file also have `dataFile` and their 0-based `dataRowIndex` in it; their
+ * `rowLine` is the line of the `@data:` tag, shared by all the rows of the file.
+ */
+export interface ScenarioOrigin {
+  uri: string;
+  featureName: string;
+  ruleName?: string;
+  scenarioName: string;
+  scenarioLine: number;
+  examplesName?: string;
+  examplesLine?: number;
+  rowIndex?: number;
+  rowLine?: number;
+  values?: Record<string, string>;
+  dataFile?: string;
+  dataRowIndex?: number;
+}
+
+/**
+ * A row merged from a `@data:` file: the file and the 0-based index of the row in it.
+ */
+export interface DataRowOrigin {
+  dataFile: string;
+  dataRowIndex: number;
+}
+
+/**
+ * One generated file and the scenario it was generated from.
+ * Files holding several scenarios (or outline rows) list all of them in `origins`; `origin` is the first.
+ * `lineMap` maps line numbers of the generated file to lines of `origin.uri`, when known.
+ * `dataRows` maps the lines holding a row of a `@data:` file (or, with the pickle expansion, the
+ * Scenario made of it) to that row, as the line map sends all the rows of the file to their tag.
+ */
+export interface ManifestEntry {
+  file: string;
+  origin: ScenarioOrigin;
+  origins?: ScenarioOrigin[];
+  lineMap?: Record<number, number>;
+  dataRows?: Record<number, DataRowOrigin>;
+}
+
+/**
+ * JSON manifest written by the splitter and the converter (`manifestPath` option).
+ * Paths are relative to the working directory, with `/` separators.
+ */
+export interface SourceManifest {
+  version: 1;
+  generator: 'split' | 'convert';
+  entries: ManifestEntry[];
+}
+
+/**
+ * Describes a scenario of `feature`; pass `examples`/`row` for a single Scenario Outline row.
+ */
+export function makeScenarioOrigin(
+  uri: string,
+  feature: messages.Feature,
+  rule: messages.Rule | undefined | null,
+  scenario: messages.Scenario,
+  examples?: messages.Examples,
+  row?: messages.TableRow
+): ScenarioOrigin {
+  const origin: ScenarioOrigin = {
+    uri,
+    featureName: feature.name,
+    ruleName: rule?.name,
+    scenarioName: scenario.name,
+    scenarioLine: scenario.location.line
+  };
+
+  if (examples && row) {
+    origin.examplesName = examples.name;
+    origin.examplesLine = examples.location.line;
+    origin.rowIndex = examples.tableBody.findIndex((r) => r.id === row.id);
+    origin.rowLine = row.location.line;
+    origin.values = Object.fromEntries(
+      (examples.tableHeader?.cells ?? []).map((cell, i) => [cell.value, row.cells[i]?.value ?? ''])
+    );
+    const dataRow = dataRowSource(row);
+    if (dataRow) {
+      origin.dataFile = toManifestPath(dataRow.dataFile);
+      origin.dataRowIndex = dataRow.dataRowIndex;
+    }
+  }
+
+  return origin;
+}
+
+/**
+ * Normalizes a path for the manifest: relative to the working directory, `/` separated.
+ */
+export function toManifestPath(filePath: string): string {
+  return path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+export function writeManifest(manifestPath: string, manifest: SourceManifest): void {
+  fs.outputJsonSync(manifestPath, manifest, { spaces: 2 });
+}
+
+export function readManifest(manifestPath: string): SourceManifest {
+  const manifest = fs.readJsonSync(manifestPath) as SourceManifest;
+  if (manifest?.version !== 1 || !Array.isArray(manifest.entries)) {
+    throw new Error(`Not a gherkin-utils manifest: ${manifestPath}`);
+  }
+  return manifest;
+}
@@ -0,0 +1,63 @@
+import * as messages from '@cucumber/messages';
+
+/**
+ * Name filters, combined with tag expressions using AND semantics:
+ * - includeNames?: regular expressions; only the scenarios (or Examples rows) with a matching name are kept
+ * - excludeNames?: regular expressions; the scenarios (or Examples rows) with a matching name are dropped
+ *
+ * The names of a scenario are those of its Feature, Rule, Scenario (Outline) and Examples, and
+ * for an Examples row the scenario name with its `<placeholders>` replaced by the row values.
+ */
+export interface NameFilterOptions {
+  includeNames?: string[];
+  excludeNames?: string[];
+}
+
+/**
+ * Tells whether a scenario, or one row of a Scenario Outline, passes the name filters.
+ */
+export type NameFilter = (
+  feature: messages.Feature,
+  rule: messages.Rule | undefined,
+  scenario: messages.Scenario,
+  examples?: messages.Examples,
+  row?: messages.TableRow
+) => boolean;
+
+/**
+ * Compiles the name filters; `undefined` when there are none.
+ *
+ * @throws {Error} for an invalid regular expression.
+ */
+export function createNameFilter(options: NameFilterOptions): NameFilter | undefined {
+  const includes = (options.includeNames ?? []).map(compile);
+  const excludes = (options.excludeNames ?? []).map(compile);
+  if (!includes.length && !excludes.length) {
+    return undefined;
+  }
+
+  return (feature, rule, scenario, examples, row) => {
+    const names = [feature.name, rule?.name, scenario.name, examples?.name, expandName(scenario.name, examples, row)];
+    const matches = (regex: RegExp) => names.some((name) => name && regex.test(name));
+    return (!includes.length || includes.some(matches)) && !excludes.some(matches);
+  };
+}
+
+function compile(source: string): RegExp {
+  try {
+    return new RegExp(source);
+  } catch (error) {
+    throw new Error(`Invalid name filter "${source}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The name of a Scenario Outline row, as Cucumber names its pickle.
+ */
+function expandName(name: string, examples?: messages.Examples, row?: messages.TableRow): string | undefined {
+  if (!examples?.tableHeader || !row) {
+    return undefined;
+  }
+  const values = new Map(examples.tableHeader.cells.map((cell, i) => [cell.value, row.cells[i]?.value ?? '']));
+  return name.replace(/<([^>]+)>/g, (placeholder, key: string) => values.get(key) ?? placeholder);
+}
@@ -0,0 +1,54 @@
+import * as messages from '@cucumber/messages';
+import { IdGenerator } from '@cucumber/messages';
+import { dialects, generateMessages } from '@cucumber/gherkin';
+import { GherkinParseError } from './errors';
+
+/**
+ * Result of parsing a single Gherkin source.
+ */
+export interface ParsedFeatureSource {
+  gherkinDocument: messages.GherkinDocument;
+  pickles: messages.Pickle[];
+}
+
+/**
+ * Parses Gherkin source text in memory.
+ * `uri` is only used to label the document and the errors; nothing is read from disk.
+ * `defaultDialect` is the language of sources without a `# language:` header; the resolved
+ * language is available as `gherkinDocument.feature.language`.
+ *
+ * @throws {GherkinParseError} for the first parse error reported by the parser, or an unknown dialect.
+ */
+export function parseFeatureSource(
+  source: string,
+  uri: string,
+  includePickles = false,
+  defaultDialect = 'en'
+): ParsedFeatureSource {
+  if (!dialects[defaultDialect]) {
+    throw new GherkinParseError(`Language not supported: ${defaultDialect}`, uri);
+  }
+
+  const envelopes = generateMessages(source, uri, messages.SourceMediaType.TEXT_X_CUCUMBER_GHERKIN_PLAIN, {
+    defaultDialect,
+    includeGherkinDocument: true,
+    includePickles,
+    newId: IdGenerator.uuid()
+  });
+
+  const parseError = envelopes.find((env) => env.parseError)?.parseError;
+  if (parseError) {
+    const location = parseError.source.location;
+    throw new GherkinParseError(parseError.message, uri, location?.line, location?.column);
+  }
+
+  const gherkinDocument = envelopes.find((env) => env.gherkinDocument)?.gherkinDocument;
+  if (!gherkinDocument) {
+    throw new GherkinParseError('No Gherkin document produced', uri);
+  }
+
+  return {
+    gherkinDocument,
+    pickles: envelopes.filter((env) => env.pickle).map((env) => env.pickle!)
+  };
+}
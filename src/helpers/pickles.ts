@@ -0,0 +1,115 @@
+import * as messages from '@cucumber/messages';
+import { IdGenerator } from '@cucumber/messages';
+import { compile } from '@cucumber/gherkin';
+import * as fs from 'fs-extra';
+import { formatMessages } from './cucumberReport';
+import { scenarioKeyword } from './gherkinUtils';
+import { parseFeatureSource } from './parseUtils';
+
+/**
+ * How the rows of a Scenario Outline are turned into scenarios:
+ * - ast: the placeholders of the outline are replaced with the values of the Examples row
+ * - pickles: the scenarios are taken from the pickles of Gherkin's compiler, as Cucumber runs them
+ *   (names, step texts, table cells, docstrings and their media types)
+ */
+export type ExpansionMode = 'ast' | 'pickles';
+
+const EXPANSION_MODES: readonly ExpansionMode[] = ['ast', 'pickles'];
+
+/**
+ * @throws {Error} for an unknown expansion mode.
+ */
+export function checkExpansion(expansion: string | undefined): void {
+  if (expansion !== undefined && !EXPANSION_MODES.includes(expansion as ExpansionMode)) {
+    throw new Error(`Invalid expansion: ${expansion} (expected ${EXPANSION_MODES.join(' or ')})`);
+  }
+}
+
+/**
+ * Compiles the pickles of a feature, indexed by {@link pickleKey}. Pass the feature the scenarios
+ * are taken from (e.g. with the rows of its `@data:` files merged), so that the ids match.
+ */
+export function compilePickles(
+  gherkinDocument: messages.GherkinDocument,
+  feature: messages.Feature,
+  uri: string
+): Map<string, messages.Pickle> {
+  const pickles = compile({ ...gherkinDocument, feature }, uri, IdGenerator.uuid());
+  return new Map(pickles.map((pickle) => [pickleKey(pickle.astNodeIds[0], pickle.astNodeIds[1]), pickle]));
+}
+
+/**
+ * Key of the pickle of a Scenario, or of one Examples row of a Scenario Outline.
+ */
+export function pickleKey(scenarioId: string, rowId?: string): string {
+  return rowId ? `${scenarioId}:${rowId}` : scenarioId;
+}
+
+/**
+ * Builds the Scenario of one Examples row of an outline from its pickle: the name, step texts,
+ * table cells and docstrings (media type included) are those of the pickle, the Examples tags
+ * move to the Scenario, and the AST locations are kept.
+ */
+export function scenarioFromPickle(
+  scenario: messages.Scenario,
+  examples: messages.Examples,
+  pickle: messages.Pickle,
+  language: string
+): messages.Scenario {
+  const pickleSteps = new Map(pickle.steps.map((step) => [step.astNodeIds[0], step]));
+
+  return {
+    ...scenario,
+    id: IdGenerator.uuid()(),
+    keyword: scenarioKeyword(language),
+    name: pickle.name,
+    tags: [...scenario.tags, ...examples.tags],
+    examples: [],
+    steps: scenario.steps.map((step) => {
+      const { text, argument } = pickleSteps.get(step.id)!;
+      return {
+        ...step,
+        text,
+        dataTable: step.dataTable && {
+          ...step.dataTable,
+          rows: step.dataTable.rows.map((row, r) => ({
+            ...row,
+            cells: row.cells.map((cell, c) => ({ ...cell, value: argument!.dataTable!.rows[r].cells[c].value }))
+          }))
+        },
+        docString: step.docString && {
+          ...step.docString,
+          content: argument!.docString!.content,
+          mediaType: argument!.docString!.mediaType
+        }
+      };
+    })
+  };
+}
+
+/**
+ * The messages Cucumber reads from a feature file: its `source`, `gherkinDocument` and `pickle`s.
+ *
+ * @throws {GherkinParseError} when the source is not valid Gherkin.
+ */
+export function compileFeatureMessages(source: string, uri: string, language?: string): messages.Envelope[] {
+  const { gherkinDocument, pickles } = parseFeatureSource(source, uri, true, language);
+  return [
+    { source: { uri, data: source, mediaType: messages.SourceMediaType.TEXT_X_CUCUMBER_GHERKIN_PLAIN } },
+    { gherkinDocument },
+    ...pickles.map((pickle) => ({ pickle }))
+  ];
+}
+
+/**
+ * Writes the messages of generated feature files as NDJSON, one envelope per line.
+ * `language` is the dialect of the files without a `# language:` header.
+ */
+export function writePickleMessages(
+  picklesPath: string,
+  files: readonly { uri: string; content: string }[],
+  language?: string
+): void {
+  const envelopes = files.flatMap(({ uri, content }) => compileFeatureMessages(content, uri, language));
+  fs.outputFileSync(picklesPath, formatMessages(envelopes));
+}
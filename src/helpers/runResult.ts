@@ -0,0 +1,58 @@
+import { FeatureFileError, FeatureIoError } from './errors';
+import { Logger } from './logger';
+
+/**
+ * Options shared by the file-based utilities:
+ * - logger?: receives the progress messages, default: the console, see {@link Logger}
+ * - failFast?: stop at the first file that fails, rejecting with its error, instead of reporting
+ *   it in the summary and carrying on with the other files
+ */
+export interface RunOptions {
+  logger?: Logger;
+  failFast?: boolean;
+}
+
+/**
+ * Why a file was skipped:
+ * - parse-error/io-error: the feature file failed, see `fileErrors`
+ * - no-match: no scenario of the feature file passed the filters
+ * - unchanged: the file to write already had the right content, so it was left untouched
+ */
+export type SkipReason = 'parse-error' | 'io-error' | 'no-match' | 'unchanged';
+
+export interface SkippedFile {
+  file: string;
+  reason: SkipReason;
+}
+
+/**
+ * What a run did, file by file, shared by the split and convert summaries:
+ * - writtenFiles: paths of the files written, in file order
+ * - skippedFiles: files not processed or not written, with the reason
+ * - scenariosMatched: scenarios (or Examples rows) kept by the filters
+ * - scenariosFiltered: scenarios (or Examples rows) left out by the tag, name or line filters
+ * - fileErrors: the typed errors of the files that failed, in file order
+ */
+export interface RunResult {
+  writtenFiles: string[];
+  skippedFiles: SkippedFile[];
+  scenariosMatched: number;
+  scenariosFiltered: number;
+  fileErrors: FeatureFileError[];
+}
+
+export function emptyRunResult(): RunResult {
+  return { writtenFiles: [], skippedFiles: [], scenariosMatched: 0, scenariosFiltered: 0, fileErrors: [] };
+}
+
+/**
+ * Runs a filesystem operation on `filePath`, raising a {@link FeatureIoError} when it fails.
+ */
+export async function withIoError<T>(filePath: string, operation: 'read' | 'write', fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new FeatureIoError(`Cannot ${operation} ${filePath}: ${reason}`, filePath, operation, error);
+  }
+}
@@ -0,0 +1,63 @@
+import { performance } from 'perf_hooks';
+
+/**
+ * Where the time of a run went. `totalMs` is wall-clock time; the phase times add up the time
+ * spent on every file, one file at a time.
+ */
+export interface TimingStats {
+  totalMs: number;
+  readMs: number;
+  parseMs: number;
+  writeMs: number;
+}
+
+export type TimedPhase = 'readMs' | 'parseMs' | 'writeMs';
+
+/**
+ * Starts timing a run; call `finish` once it is done to get its stats.
+ */
+export function startTimings(): { stats: TimingStats; finish: () => TimingStats } {
+  const start = performance.now();
+  const stats: TimingStats = { totalMs: 0, readMs: 0, parseMs: 0, writeMs: 0 };
+  const finish = () => {
+    stats.totalMs = performance.now() - start;
+    for (const key of ['totalMs', 'readMs', 'parseMs', 'writeMs'] as const) {
+      stats[key] = Math.round(stats[key]);
+    }
+    return stats;
+  };
+  return { stats, finish };
+}
+
+/**
+ * Runs `fn` and adds the time it took to a phase of `stats`.
+ */
+export async function timed<T>(stats: TimingStats, phase: TimedPhase, fn: () => T | Promise<T>): Promise<T> {
+  const start = performance.now();
+  const stop = () => {
+    stats[phase] += performance.now() - start;
+  };
+  let result: T | Promise<T>;
+  try {
+    result = fn();
+  } catch (error) {
+    stop();
+    throw error;
+  }
+  if (!(result instanceof Promise)) {
+    stop();
+    return result;
+  }
+  try {
+    return await result;
+  } finally {
+    stop();
+  }
+}
+
+export function formatTimings(files: number, stats: TimingStats): string {
+  return (
+    `⏱️  ${files} file(s) in ${stats.totalMs} ms ` +
+    `(read ${stats.readMs} ms, parse ${stats.parseMs} ms, write ${stats.writeMs} ms)`
+  );
+}
@@ -1,2 +1,33 @@
 export * from './utilities/convertToScenario';
+export * from './utilities/convertToOutline';
 export * from './utilities/featuresplitter';
+export * from './utilities/resultRemapper';
+export * from './utilities/validator';
+export * from './utilities/cucumberRunner';
+export * from './utilities/inventory';
+export * from './helpers/errors';
+export { anchorComments, printFeature, printFeatureLines } from './helpers/gherkinPrinter';
+export type { CommentAnchors, PrintedLine } from './helpers/gherkinPrinter';
+export { readManifest } from './helpers/manifest';
+export type { ScenarioOrigin, DataRowOrigin, ManifestEntry, SourceManifest } from './helpers/manifest';
+export type { TimingStats } from './helpers/timings';
+export type { NameFilterOptions } from './helpers/nameFilter';
+export { consoleLogger, silentLogger } from './helpers/logger';
+export type { Logger } from './helpers/logger';
+export type { RunOptions, RunResult, SkippedFile, SkipReason } from './helpers/runResult';
+export { compileFeatureMessages, writePickleMessages } from './helpers/pickles';
+export type { ExpansionMode } from './helpers/pickles';
+export {
+  DATA_TAG_PREFIX,
+  dataRowSource,
+  mergeExternalExamples,
+  parseCsv,
+  readDataFileSync
+} from './helpers/externalExamples';
+export type { ExternalDataOptions } from './helpers/externalExamples';
+export type {
+  CucumberJsonFeature,
+  CucumberJsonElement,
+  CucumberJsonStep,
+  CucumberJsonTag
+} from './helpers/cucumberReport';
@@ -0,0 +1,467 @@
+import * as messages from '@cucumber/messages';
+import { IdGenerator } from '@cucumber/messages';
+import { dialects } from '@cucumber/gherkin';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { glob } from 'glob';
+import { parseFeatureSource } from '../../helpers/parseUtils';
+import { findPlaceholders, isScenarioOutlineKeyword } from '../../helpers/gherkinUtils';
+import { anchorComments, printFeature, CommentAnchors } from '../../helpers/gherkinPrinter';
+import { FeatureFileError, FeatureIoError, GherkinParseError } from '../../helpers/errors';
+import { consoleLogger } from '../../helpers/logger';
+import { emptyRunResult, withIoError, RunOptions, RunResult } from '../../helpers/runResult';
+import { commonDirectory } from '../../helpers/fileUtils';
+import { createUnifiedDiff } from '../../helpers/diffUtils';
+import { toManifestPath } from '../../helpers/manifest';
+
+/**
+ * Options of the in-memory folder:
+ * - uri?: path of the source, used in the errors
+ * - language?: dialect of a source without a `# language:` header, default: en
+ * - minScenarios?: the fewest scenarios folded into one outline, default: 2
+ * - maxPlaceholders?: the most placeholders (Examples columns) of an outline, default: 5;
+ *   scenarios differing in more places are left alone
+ */
+export interface FoldOptions {
+  uri?: string;
+  language?: string;
+  minScenarios?: number;
+  maxPlaceholders?: number;
+}
+
+/**
+ * A Scenario Outline proposed in place of similar scenarios:
+ * - name: the outline name, with its `<placeholders>`
+ * - line: line of the first folded scenario, where the outline goes
+ * - columns: the Examples columns
+ * - scenarios: name and line of every folded scenario, in source order
+ */
+export interface FoldedOutline {
+  name: string;
+  line: number;
+  columns: string[];
+  scenarios: { name: string; line: number }[];
+}
+
+/**
+ * Result of folding one Gherkin source:
+ * - content: the rewritten feature (the unchanged source when nothing was folded)
+ * - folded: whether scenarios were folded into an outline
+ * - outlines: one entry per outline created
+ */
+export interface FoldResult {
+  content: string;
+  folded: boolean;
+  outlines: FoldedOutline[];
+}
+
+/**
+ * Options of the file-based folder:
+ * - outputDirectory?: write the folded files there (mirroring their folders below `baseDirectory`)
+ *   instead of overwriting the inputs
+ * - baseDirectory?: folder the output paths are relative to, default: the common folder of the matched files
+ * - dryRun?: only propose the outlines: print the diff of every file that would change, without writing
+ * - language?/minScenarios?/maxPlaceholders?: see {@link FoldOptions}
+ * - logger?/failFast?: see {@link RunOptions}
+ */
+export interface FoldFeatureFilesOptions extends Omit<FoldOptions, 'uri'>, RunOptions {
+  outputDirectory?: string;
+  baseDirectory?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of {@link foldFeatureFiles}; `scenariosMatched` counts the folded scenarios.
+ */
+export interface FoldSummary extends RunResult {
+  featureFiles: number;
+  outlines: number;
+  changedFiles: string[];
+}
+
+/** Used when the caller does not say where the source comes from. */
+const DEFAULT_SOURCE_URI = 'inline.feature';
+
+/** Location of the nodes created by the folder, which have no source line (and no comments). */
+const NO_LOCATION: messages.Location = { line: 0, column: 0 };
+
+/**
+ * A step text cut into literal tokens (words, numbers, quoted strings) and the whitespace between them.
+ */
+interface TokenizedText {
+  tokens: string[];
+  separators: string[];
+}
+
+/**
+ * An Examples column: its placeholder and its value in every folded scenario.
+ */
+interface Column {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Folds the scenarios of a Gherkin source that only differ in literal values into Scenario Outlines,
+ * the opposite of the conversion (see `convertOutlineSource`), without touching the filesystem.
+ *
+ * Scenarios of the same feature (or rule) are folded together when they have the same steps (keywords,
+ * number of words, data table shape, docstrings and description) and only differ in words, numbers,
+ * quoted strings or table cells. Those become `<placeholders>` of an outline that takes the place of
+ * the first scenario, with one Examples row per scenario. Values that always change together share
+ * a placeholder, and the scenario names are templated the same way (or become a `<scenario>` column).
+ *
+ * The tags of all the scenarios stay on the outline; the other tags go to the Examples, one block per
+ * set of tags. The outline runs the same steps, with the same names and tags, as the scenarios it
+ * replaces. The comments above the folded scenarios are printed before their Examples row.
+ *
+ * @throws {GherkinParseError} when the source is not valid Gherkin.
+ */
+export function foldScenariosSource(source: string, options: FoldOptions = {}): FoldResult {
+  const uri = options.uri ?? DEFAULT_SOURCE_URI;
+  const unchanged: FoldResult = { content: source, folded: false, outlines: [] };
+  const minScenarios = options.minScenarios ?? 2;
+  const maxPlaceholders = options.maxPlaceholders ?? 5;
+  if (!Number.isInteger(minScenarios) || minScenarios < 2) {
+    throw new Error(`Invalid minScenarios: ${minScenarios} (expected an integer of at least 2)`);
+  }
+  if (!Number.isInteger(maxPlaceholders) || maxPlaceholders < 1) {
+    throw new Error(`Invalid maxPlaceholders: ${maxPlaceholders} (expected an integer of at least 1)`);
+  }
+
+  const { gherkinDocument } = parseFeatureSource(source, uri, false, options.language);
+  const feature = gherkinDocument.feature;
+  if (!feature) {
+    return unchanged;
+  }
+
+  const newId = IdGenerator.uuid();
+  const outlines: FoldedOutline[] = [];
+  const comments = anchorComments(gherkinDocument);
+
+  // 🧩 Replace every group of similar scenarios by an outline, at the place of the first one
+  const foldChildren = <T extends { scenario?: messages.Scenario }>(children: readonly T[]): T[] => {
+    const groups = new Map<string, messages.Scenario[]>();
+    for (const { scenario } of children) {
+      if (scenario && !scenario.examples.length && !isScenarioOutlineKeyword(scenario.keyword, feature.language)) {
+        const key = shapeKey(scenario);
+        groups.set(key, [...(groups.get(key) ?? []), scenario]);
+      }
+    }
+
+    const replaced = new Map<string, messages.Scenario | undefined>(); // scenario id -> outline (first) or removed
+    for (const members of groups.values()) {
+      const outline = members.length >= minScenarios && foldGroup(members, feature.language, maxPlaceholders, newId);
+      if (outline) {
+        members.forEach((member, i) => replaced.set(member.id, i === 0 ? outline.scenario : undefined));
+        outlines.push(outline.folded);
+        moveTagComments(comments, members, outline.scenario.tags);
+      }
+    }
+
+    return children.flatMap((child) => {
+      if (!child.scenario || !replaced.has(child.scenario.id)) {
+        return [child];
+      }
+      const outline = replaced.get(child.scenario.id);
+      return outline ? [{ ...child, scenario: outline }] : [];
+    });
+  };
+
+  const children = foldChildren(feature.children).map((child) =>
+    child.rule ? { ...child, rule: { ...child.rule, children: foldChildren(child.rule.children) } } : child
+  );
+  if (!outlines.length) {
+    return unchanged;
+  }
+
+  outlines.sort((a, b) => a.line - b.line);
+  const content = printFeature({ ...feature, children }, comments);
+  return { content, folded: true, outlines };
+}
+
+/**
+ * Folds the scenarios of the feature files matching a path or glob pattern into outlines (see
+ * {@link foldScenariosSource}), in place or into `options.outputDirectory`. With `options.dryRun`,
+ * the outlines are only proposed: the diff of every file that would change is printed.
+ *
+ * @param {string | string[]} filePathOrPattern - The absolute/relative path(s) or glob pattern(s) of the feature file(s) to fold.
+ * @returns {Promise<FoldSummary>} A promise that resolves with the files written and skipped and the errors of the failed files,
+ *   or rejects with the first of these errors when `options.failFast` is set.
+ */
+export async function foldFeatureFiles(
+  filePathOrPattern: string | string[],
+  options: FoldFeatureFilesOptions = {}
+): Promise<FoldSummary> {
+  const files = glob.sync(filePathOrPattern).sort();
+  const summary: FoldSummary = { featureFiles: files.length, outlines: 0, changedFiles: [], ...emptyRunResult() };
+  const logger = options.logger ?? consoleLogger;
+  const baseDirectory = options.baseDirectory ?? commonDirectory(files);
+
+  for (const filePath of files) {
+    logger.info(`📂 Processing: ${filePath}`);
+    try {
+      const source = await withIoError(filePath, 'read', () => fs.promises.readFile(filePath, 'utf8'));
+      const result = foldScenariosSource(source, {
+        uri: toManifestPath(filePath),
+        language: options.language,
+        minScenarios: options.minScenarios,
+        maxPlaceholders: options.maxPlaceholders
+      });
+
+      for (const outline of result.outlines) {
+        const verb = options.dryRun ? 'Would fold' : 'Folded';
+        logger.info(`🧩 ${verb} ${outline.scenarios.length} scenarios into "${outline.name}" (line ${outline.line})`);
+      }
+      summary.outlines += result.outlines.length;
+      summary.scenariosMatched += result.outlines.reduce((count, outline) => count + outline.scenarios.length, 0);
+      if (result.folded) {
+        summary.changedFiles.push(filePath);
+      }
+
+      if (options.dryRun) {
+        if (result.folded) {
+          logger.info(createUnifiedDiff(source, result.content, filePath, `${filePath} (folded)`));
+        }
+        continue;
+      }
+      const target = options.outputDirectory
+        ? path.join(options.outputDirectory, path.relative(baseDirectory, filePath))
+        : filePath;
+      if (!result.folded && target === filePath) {
+        summary.skippedFiles.push({ file: filePath, reason: 'unchanged' });
+        continue;
+      }
+      await withIoError(target, 'write', () => fs.outputFile(target, result.content, 'utf8'));
+      summary.writtenFiles.push(target);
+    } catch (error) {
+      if (options.failFast || !(error instanceof GherkinParseError || error instanceof FeatureIoError)) {
+        throw error;
+      }
+      reportFileError(summary, filePath, error);
+      logger.error(`❌ ${error instanceof GherkinParseError ? `Parse error in ${filePath}: ` : ''}${error.message}`);
+    }
+  }
+
+  const verb = options.dryRun ? 'would be folded' : 'folded';
+  logger.info(`✅ ${summary.scenariosMatched} scenario(s) ${verb} into ${summary.outlines} outline(s)`);
+  return summary;
+}
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+function reportFileError(summary: FoldSummary, filePath: string, error: FeatureFileError): void {
+  summary.fileErrors.push(error);
+  summary.skippedFiles.push({
+    file: filePath,
+    reason: error instanceof GherkinParseError ? 'parse-error' : 'io-error'
+  });
+}
+
+/**
+ * Moves the comments above the tags of folded scenarios, which are no longer printed, to their
+ * header line: the outline header for the first scenario, the Examples row for the others.
+ * `outlineTags` are the tags printed on the outline, from the first scenario.
+ */
+function moveTagComments(
+  comments: CommentAnchors,
+  members: readonly messages.Scenario[],
+  outlineTags: readonly messages.Tag[]
+): void {
+  const printedLines = new Set(outlineTags.map((tag) => tag.location.line));
+  for (const member of members) {
+    for (const line of new Set(member.tags.map((tag) => tag.location.line))) {
+      const anchored = comments.byLine.get(line);
+      if (anchored && !printedLines.has(line)) {
+        comments.byLine.delete(line);
+        comments.byLine.set(member.location.line, [...anchored, ...(comments.byLine.get(member.location.line) ?? [])]);
+      }
+    }
+  }
+}
+
+/**
+ * Cuts a text into words, numbers and quoted strings (which may hold spaces), keeping the whitespace
+ * between them so that the text can be put back together.
+ */
+function tokenize(text: string): TokenizedText {
+  const tokens: string[] = [];
+  const separators: string[] = [];
+  let end = 0;
+  for (const match of text.matchAll(/(?<!\S)(["'])[^"']*\1(?=[\s,.;:!?)]|$)|\S+/g)) {
+    separators.push(text.slice(end, match.index));
+    tokens.push(match[0]);
+    end = match.index! + match[0].length;
+  }
+  separators.push(text.slice(end));
+  return { tokens, separators };
+}
+
+/**
+ * What scenarios must share to be folded: everything but the tags, the name, the literal tokens
+ * of the steps and the table cells.
+ */
+function shapeKey(scenario: messages.Scenario): string {
+  return JSON.stringify([
+    scenario.keyword,
+    scenario.description,
+    scenario.steps.map((step) => [
+      step.keyword,
+      tokenize(step.text).separators,
+      step.dataTable?.rows.map((row) => row.cells.length),
+      step.docString && [step.docString.content, step.docString.mediaType, step.docString.delimiter]
+    ])
+  ]);
+}
+
+/**
+ * Builds the outline of a group of scenarios with the same shape; `undefined` when they differ in
+ * more than `maxPlaceholders` places, or a step would be nothing but placeholders.
+ */
+function foldGroup(
+  members: messages.Scenario[],
+  language: string,
+  maxPlaceholders: number,
+  newId: () => string
+): { scenario: messages.Scenario; folded: FoldedOutline } | undefined {
+  const [first] = members;
+  const reserved = new Set(
+    members.flatMap((member) =>
+      [
+        member.name,
+        ...member.steps.flatMap((step) => [
+          step.text,
+          ...(step.dataTable?.rows.flatMap((row) => row.cells.map((cell) => cell.value)) ?? [])
+        ])
+      ].flatMap((text) => findPlaceholders(text).map((placeholder) => placeholder.name))
+    )
+  );
+  const columns: Column[] = [];
+
+  // The placeholder of a value vector, shared by the values that always change together
+  const placeholder = (values: string[], baseName: string): string => {
+    const existing = columns.find((column) => column.values.every((value, i) => value === values[i]));
+    if (existing) {
+      return `<${existing.name}>`;
+    }
+    let name = baseName.replace(/[<>|\\]/g, '').trim() || 'value';
+    for (let n = 2; reserved.has(name) || columns.some((column) => column.name === name); n++) {
+      name = `${baseName.replace(/[<>|\\]/g, '').trim() || 'value'}${n}`;
+    }
+    columns.push({ name, values });
+    return `<${name}>`;
+  };
+
+  // Returns the text of the first member with a placeholder for every token that differs; `undefined`
+  // when the texts don't line up, or when every token differs
+  const templateText = (texts: string[]): string | undefined => {
+    const tokenized = texts.map(tokenize);
+    const { tokens, separators } = tokenized[0];
+    if (tokenized.some((t) => t.tokens.length !== tokens.length || t.separators.join() !== separators.join())) {
+      return undefined;
+    }
+    const values = tokens.map((_, j) => tokenized.map((t) => t.tokens[j]));
+    const differs = values.map((tokenValues) => tokenValues.some((value) => value !== tokenValues[0]));
+    if (differs.length && differs.every(Boolean)) {
+      return undefined;
+    }
+
+    const parts = tokens.map((token, j) => {
+      if (!differs[j]) {
+        return token;
+      }
+      const quote = values[j].every((value) => /^(["']).*\1$/.test(value) && value[0] === token[0]) ? token[0] : '';
+      if (quote) {
+        return `${quote}${placeholder(
+          values[j].map((value) => value.slice(1, -1)),
+          'text'
+        )}${quote}`;
+      }
+      return placeholder(values[j], /^-?\d+(?:[.,]\d+)?$/.test(token) ? 'number' : 'value');
+    });
+    return separators.map((separator, j) => separator + (parts[j] ?? '')).join('');
+  };
+
+  const steps: messages.Step[] = [];
+  for (const [i, step] of first.steps.entries()) {
+    const text = templateText(members.map((member) => member.steps[i].text));
+    if (text === undefined) {
+      return undefined;
+    }
+    const dataTable = step.dataTable && {
+      ...step.dataTable,
+      rows: step.dataTable.rows.map((row, r) => ({
+        ...row,
+        cells: row.cells.map((cell, c) => {
+          const values = members.map((member) => member.steps[i].dataTable!.rows[r].cells[c].value);
+          const header = step.dataTable!.rows[0].cells[c].value;
+          const headerIsFixed = r > 0 && members.every((m) => m.steps[i].dataTable!.rows[0].cells[c].value === header);
+          return values.every((value) => value === cell.value)
+            ? cell
+            : { ...cell, value: placeholder(values, headerIsFixed ? header : 'value') };
+        })
+      }))
+    };
+    steps.push({ ...step, text, ...(dataTable && { dataTable }) });
+  }
+
+  const names = members.map((member) => member.name);
+  const name = templateText(names) ?? placeholder(names, 'scenario');
+  if (!columns.length || columns.length > maxPlaceholders) {
+    return undefined;
+  }
+
+  // Tags of every member stay on the outline, the others make one Examples block per set of tags
+  const commonTags = first.tags.filter((tag) =>
+    members.every((member) => member.tags.some((memberTag) => memberTag.name === tag.name))
+  );
+  const ownTags = (member: messages.Scenario) =>
+    member.tags.filter((tag) => !commonTags.some((common) => common.name === tag.name));
+  const blocks = new Map<string, { tags: messages.Tag[]; rows: messages.TableRow[] }>();
+  members.forEach((member, m) => {
+    const tags = ownTags(member).map((tag) => ({ ...tag, location: NO_LOCATION }));
+    const key = tags.map((tag) => tag.name).join(' ');
+    const block = blocks.get(key) ?? { tags, rows: [] };
+    block.rows.push({
+      id: newId(),
+      location: m === 0 ? NO_LOCATION : member.location, // comments of the first member go before the outline
+      cells: columns.map((column) => ({ location: NO_LOCATION, value: column.values[m] }))
+    });
+    blocks.set(key, block);
+  });
+
+  const examplesKeyword = (dialects[language] ?? dialects.en).examples[0];
+  const scenario: messages.Scenario = {
+    ...first,
+    keyword: (dialects[language] ?? dialects.en).scenarioOutline[0],
+    name,
+    tags: commonTags,
+    steps,
+    examples: [...blocks.values()].map(({ tags, rows }) => ({
+      id: newId(),
+      location: NO_LOCATION,
+      tags,
+      keyword: examplesKeyword,
+      name: '',
+      description: '',
+      tableHeader: {
+        id: newId(),
+        location: NO_LOCATION,
+        cells: columns.map((column) => ({ location: NO_LOCATION, value: column.name }))
+      },
+      tableBody: rows
+    }))
+  };
+
+  return {
+    scenario,
+    folded: {
+      name,
+      line: first.location.line,
+      columns: columns.map((column) => column.name),
+      scenarios: members.map((member) => ({ name: member.name, line: member.location.line }))
+    }
+  };
+}
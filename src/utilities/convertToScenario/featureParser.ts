@@ -1,142 +1,434 @@
-import { GherkinStreams } from '@cucumber/gherkin-streams';
 import { IdGenerator } from '@cucumber/messages';
 import * as messages from '@cucumber/messages';
-import { streamToArray } from '../../helpers/streamUtils';
+import { parseFeatureSource } from '../../helpers/parseUtils';
+import { inlineBackgrounds, replacePlaceholders, scenarioKeyword } from '../../helpers/gherkinUtils';
+import { anchorComments, printFeature } from '../../helpers/gherkinPrinter';
+import { FeatureFileError, FeatureIoError, GherkinParseError } from '../../helpers/errors';
+import { consoleLogger } from '../../helpers/logger';
+import { emptyRunResult, withIoError, RunOptions, RunResult } from '../../helpers/runResult';
+import {
+  mergeExternalExamples,
+  readReferencedDataFiles,
+  removeDataTags,
+  ExternalDataOptions
+} from '../../helpers/externalExamples';
+import { createNameFilter, NameFilterOptions } from '../../helpers/nameFilter';
+import { commonDirectory } from '../../helpers/fileUtils';
+import { createUnifiedDiff } from '../../helpers/diffUtils';
+import {
+  checkExpansion,
+  compilePickles,
+  pickleKey,
+  scenarioFromPickle,
+  writePickleMessages,
+  ExpansionMode
+} from '../../helpers/pickles';
+import { formatTimings, startTimings, timed, TimingStats } from '../../helpers/timings';
+import {
+  makeScenarioOrigin,
+  ScenarioOrigin,
+  toManifestPath,
+  writeManifest,
+  ManifestEntry
+} from '../../helpers/manifest';
 import * as fs from 'fs-extra';
+import * as path from 'path';
 import { glob } from 'glob';
-import prettier from 'prettier';
 
 /**
- * Processes feature files **one at a time** to avoid potential mapping issues.
+ * Outcome of a conversion run, so callers (e.g. the CLI) can tell whether anything failed.
+ * `errors` describes the failures of `fileErrors`; `scenariosMatched` counts the converted rows.
+ * `malformedOutlines` lists the Scenario Outlines left unconverted, see {@link ConvertResult}.
+ */
+export interface ConvertSummary extends RunResult {
+  featureFiles: number;
+  modified: number;
+  changedFiles: string[];
+  errors: string[];
+  malformedOutlines: ConvertOrigin[];
+  timings?: TimingStats;
+}
+
+/**
+ * Options of the file-based converter:
+ * - outputDirectory?: write the converted files there (mirroring their folders below `baseDirectory`)
+ *   instead of overwriting the inputs
+ * - baseDirectory?: folder the output paths are relative to, default: the common folder of the matched files
+ * - dryRun?: only report the files that would change
+ * - check?: print a unified diff for every file that is not already in converted form, without writing
+ * - manifestPath?: JSON manifest linking every converted file to the outline and Examples row it comes from
+ * - language?: dialect of the files without a `# language:` header, default: en
+ * - includeNames?/excludeNames?: only convert the Examples rows passing these name filters, see {@link ConvertOptions}
+ * - inlineBackgrounds?: copy the Background steps into every scenario, see {@link ConvertOptions}
+ * - expansion?: how the Examples rows become scenarios, see {@link ConvertOptions}
+ * - picklesPath?: write the source, AST and pickle messages of the converted files (written or left
+ *   unchanged) there as NDJSON, the messages Cucumber reads from them
+ * - logger?/failFast?: where the progress goes, and whether to stop at the first failing file, see {@link RunOptions}
+ */
+export interface ProcessFeatureFilesOptions extends NameFilterOptions, RunOptions {
+  outputDirectory?: string;
+  baseDirectory?: string;
+  dryRun?: boolean;
+  check?: boolean;
+  manifestPath?: string;
+  language?: string;
+  inlineBackgrounds?: boolean;
+  expansion?: ExpansionMode;
+  picklesPath?: string;
+}
+
+/**
+ * Options of the in-memory converter:
+ * - uri?: path of the source, used in the origin metadata and errors
+ * - language?: dialect of a source without a `# language:` header, default: en
+ * - includeNames?/excludeNames?: only convert the Examples rows passing these name filters (see
+ *   {@link NameFilterOptions}); the other rows stay in their Scenario Outline, after the converted ones
+ * - inlineBackgrounds?: make every scenario self-contained: the Feature and Rule Background steps are
+ *   copied at the top of each scenario (after converting the outlines) and the Background blocks removed
+ * - expansion?: `ast` (default) replaces the placeholders of the outline; `pickles` takes every converted
+ *   Scenario from the pickle Gherkin's compiler makes of its row, exactly as Cucumber runs it
+ * - readDataFile?: reads the `@data:` files, see {@link ExternalDataOptions}
+ */
+export interface ConvertOptions extends NameFilterOptions, ExternalDataOptions {
+  uri?: string;
+  language?: string;
+  inlineBackgrounds?: boolean;
+  expansion?: ExpansionMode;
+}
+
+/**
+ * Where a converted Scenario comes from: the Scenario Outline and the Examples row used.
+ */
+export type ConvertOrigin = ScenarioOrigin;
+
+/**
+ * Result of converting one Gherkin source:
+ * - content: the rewritten feature (the unchanged source when there was nothing to rewrite)
+ * - converted: whether a Scenario Outline was turned into a Scenario
+ * - origins: one entry per converted Scenario
+ * - filtered?: with name filters, the number of Examples rows they left in their outline
+ * - malformed?: the Scenario Outlines left as they are, because none of their Examples blocks has
+ *   both a header and rows
+ */
+export interface ConvertResult {
+  content: string;
+  converted: boolean;
+  origins: ConvertOrigin[];
+  filtered?: number;
+  malformed?: ConvertOrigin[];
+}
+
+/** Used when the caller does not say where the source comes from. */
+const DEFAULT_SOURCE_URI = 'inline.feature';
+
+/**
+ * Converts every Scenario Outline of a Gherkin source (top-level and in rules) into concrete
+ * Scenarios, one per row of each of its Examples blocks, by replacing the placeholders with
+ * the row values, without touching the filesystem (unless `options.readDataFile` does). Regular
+ * scenarios, backgrounds and rules are kept in their original order and only reformatted. The output
+ * keeps the dialect, keywords and comments of the source; the converted Scenarios get the dialect's
+ * `Scenario` keyword and the comments of their outline.
+ *
+ * @throws {GherkinParseError} when the source is not valid Gherkin.
+ */
+export function convertOutlineSource(source: string, options: ConvertOptions = {}): ConvertResult {
+  const uri = options.uri ?? DEFAULT_SOURCE_URI;
+  const unchanged: ConvertResult = { content: source, converted: false, origins: [] };
+  const nameFilter = createNameFilter(options);
+  checkExpansion(options.expansion);
+
+  const { gherkinDocument } = parseFeatureSource(source, uri, false, options.language);
+  const feature =
+    gherkinDocument.feature &&
+    mergeExternalExamples(gherkinDocument.feature, uri, { readDataFile: options.readDataFile });
+  if (!feature) {
+    return unchanged;
+  }
+  const pickles = options.expansion === 'pickles' ? compilePickles(gherkinDocument, feature, uri) : undefined;
+
+  const origins: ConvertOrigin[] = [];
+  const malformed: ConvertOrigin[] = [];
+  let scenarioCount = 0;
+  let filtered = 0;
+
+  // 🛠 Replace every Scenario Outline child by one Scenario per Examples row, in place
+  const convertChildren = <T extends { scenario?: messages.Scenario }>(
+    children: readonly T[],
+    rule: messages.Rule | undefined
+  ): T[] =>
+    children.flatMap((child) => {
+      const scenario = child.scenario;
+      if (!scenario) {
+        return [child];
+      }
+      scenarioCount++;
+      if (scenario.examples.length === 0) {
+        return [child]; // 📌 Regular Scenario → No modifications needed, but preserve tags
+      }
+
+      const rows = scenario.examples.flatMap((examples) =>
+        examples.tableHeader ? examples.tableBody.map((row) => ({ examples, row })) : []
+      );
+      if (!rows.length) {
+        malformed.push(makeScenarioOrigin(uri, feature, rule, scenario));
+        return [child];
+      }
+
+      // Rows left out by the name filters stay in the outline
+      const selected = nameFilter
+        ? rows.filter(({ examples, row }) => nameFilter(feature, rule, scenario, examples, row))
+        : rows;
+      const leftRowIds = new Set(rows.filter((row) => !selected.includes(row)).map(({ row }) => row.id));
+      filtered += leftRowIds.size;
+      const converted = selected.map(({ examples, row }) => {
+        origins.push(makeScenarioOrigin(uri, feature, rule, scenario, examples, row));
+        const pickle = pickles?.get(pickleKey(scenario.id, row.id));
+        return {
+          ...child,
+          scenario: pickle
+            ? scenarioFromPickle(scenario, examples, pickle, feature.language)
+            : processScenarioOutline(scenario, examples, row, feature.language)
+        };
+      });
+      if (!leftRowIds.size) {
+        return converted;
+      }
+      const examples = scenario.examples
+        .map((block) => ({ ...block, tableBody: block.tableBody.filter((row) => leftRowIds.has(row.id)) }))
+        .filter((block) => block.tableBody.length);
+      return [...converted, { ...child, scenario: { ...scenario, examples } }];
+    });
+
+  const children = convertChildren(feature.children, undefined).map((child) =>
+    child.rule
+      ? { ...child, rule: { ...child.rule, children: convertChildren(child.rule.children, child.rule) } }
+      : child
+  );
+
+  if (!scenarioCount) {
+    return unchanged; // Skip if no scenario found
+  }
+
+  const comments = anchorComments({ ...gherkinDocument, feature: removeDataTags(gherkinDocument.feature!) });
+  const convertedFeature = { ...feature, children };
+  const content = printFeature(
+    options.inlineBackgrounds ? inlineBackgrounds(convertedFeature) : convertedFeature,
+    comments
+  );
+  return {
+    content,
+    converted: origins.length > 0,
+    origins,
+    ...(nameFilter && { filtered }),
+    ...(malformed.length && { malformed })
+  };
+}
+
+/**
+ * Processes feature files, one at a time.
  *
  * This function reads the contents of each specified feature file, performs necessary
- * transformations or updates, and writes the modified data back to the same file.
+ * transformations or updates (see {@link convertOutlineSource}), and writes the modified
+ * data back to the same file.
  *
  * **Supported path types**:
  * - **Absolute path** (e.g., `/home/user/project/features/login.feature`)
  * - **Relative path** (e.g., `./features/login.feature`)
  * - **Glob pattern** (e.g., `features/*.feature`)
  *
- * By handling files sequentially rather than concurrently, each file is updated without
- * interference from other file operations, helping prevent data corruption or conflicts.
+ * Results are reported in file order.
  *
- * @param {string} filePathOrPattern - The absolute/relative path or glob pattern of the feature file(s) to process.
- * @returns {Promise<void>} A promise that resolves once all files matching the path or pattern have been processed and updated.
+ * @param {string | string[]} filePathOrPattern - The absolute/relative path(s) or glob pattern(s) of the feature file(s) to process.
+ * @param {ProcessFeatureFilesOptions} options - Output directory, dry-run and check modes; by default files are updated in place.
+ * @returns {Promise<ConvertSummary>} A promise that resolves with the files written and skipped and the errors of the failed files,
+ *   or rejects with the first of these errors when `options.failFast` is set.
  *
  * @example
  * // Process a single file with a relative path
- * processFeatureFile('./features/login.feature')
+ * processFeatureFiles('./features/login.feature')
  *   .then(() => console.log('Feature file processed successfully!'))
  *   .catch(error => console.error('Error processing feature file:', error));
  *
  * @example
  * // Process multiple files via a glob pattern
- * processFeatureFile('features/*.feature')
+ * processFeatureFiles('features/*.feature')
  *   .then(() => console.log('All feature files processed successfully!'))
  *   .catch(error => console.error('Error processing feature files:', error));
  */
-export async function processFeatureFiles(filePathOrPattern: string): Promise<void> {
-  const files = glob.sync(filePathOrPattern);
-  const defaultOptions = {
-    defaultDialect: 'en',
-    newId: IdGenerator.uuid()
+export async function processFeatureFiles(
+  filePathOrPattern: string | string[],
+  options: ProcessFeatureFilesOptions = {}
+): Promise<ConvertSummary> {
+  const files = glob.sync(filePathOrPattern).sort();
+  const summary: ConvertSummary = {
+    featureFiles: files.length,
+    modified: 0,
+    changedFiles: [],
+    errors: [],
+    malformedOutlines: [],
+    ...emptyRunResult()
   };
+  const logger = options.logger ?? consoleLogger;
+  const baseDirectory = options.baseDirectory ?? commonDirectory(files);
+  const manifestEntries: ManifestEntry[] = [];
+  const pickleSources: { uri: string; content: string }[] = [];
+  createNameFilter(options); // reject invalid expressions before reading any file
+  checkExpansion(options.expansion);
+  const timings = startTimings();
 
+  const results: Awaited<ReturnType<typeof convertFile>>[] = [];
   for (const filePath of files) {
-    console.log(`📂 Processing: ${filePath}`);
-
-    try {
-      // ✅ Read and parse the feature file **individually**
-      const stream = GherkinStreams.fromPaths([filePath], defaultOptions);
-      const envelopes = await streamToArray(stream);
-
-      for (const envelope of envelopes) {
-        if (envelope.gherkinDocument && envelope.gherkinDocument.feature) {
-          const feature = envelope.gherkinDocument.feature;
-
-          let background: messages.Background | null = null;
-          let rule: messages.Rule | null = null;
-          let scenario: messages.Scenario | undefined;
+    results.push(await convertFile(filePath, options, baseDirectory, timings.stats));
+  }
 
-          // 🏷 Preserve the original feature-level tags
-          const featureTags: messages.Tag[] = [...(feature.tags || [])];
-          // ✅ Extract Background and Scenario
-          feature.children.forEach((child) => {
-            if (child.background) {
-              background = child.background; // Save background separately
-            }
-            if (child.rule) {
-              rule = child.rule;
-              rule.children.forEach((ruleChild) => {
-                if (ruleChild.scenario && !scenario) {
-                  scenario = ruleChild.scenario;
-                }
-              });
-            } else if (child.scenario && !scenario) {
-              scenario = child.scenario; // Grab first scenario (since only one is present)
-            }
-          });
+  // Report in file order
+  files.forEach((filePath, i) => {
+    const outcome = results[i];
+    logger.info(`📂 Processing: ${filePath}`);
 
-          if (!scenario) continue; // Skip if no scenario found
+    if ('error' in outcome) {
+      const { error } = outcome;
+      if (error instanceof GherkinParseError) {
+        logger.error(`❌ Parse error in ${filePath}: ${error.message}`);
+      } else {
+        logger.error(`❌ ${error.message}`);
+      }
+      summary.errors.push(`${filePath}: ${error.message}`);
+      summary.fileErrors.push(error);
+      summary.skippedFiles.push({
+        file: filePath,
+        reason: error instanceof GherkinParseError ? 'parse-error' : 'io-error'
+      });
+      return;
+    }
 
-          if (scenario.examples.length > 0) {
-            // 🛠 It's a Scenario Outline with Examples → Modify it
-            const updatedScenario = processScenarioOutline(scenario);
-            if (updatedScenario) {
-              let updatedFeatureContent = formatFeatureFile(feature, featureTags, background, rule, updatedScenario);
-              updatedFeatureContent = await prettier.format(updatedFeatureContent, {
-                parser: 'gherkin',
-                plugins: ['prettier-plugin-gherkin']
-              });
-              // ✅ Write back to the original file
-              fs.writeFileSync(filePath, updatedFeatureContent, 'utf8');
-              console.log(`✅ Modified: ${filePath}`);
-            }
-          } else {
-            // 📌 It's a regular Scenario → No modifications needed, but preserve tags
-            let updatedFeatureContent = formatFeatureFile(feature, featureTags, background, rule, scenario);
-            updatedFeatureContent = await prettier.format(updatedFeatureContent, {
-              parser: 'gherkin',
-              plugins: ['prettier-plugin-gherkin']
-            });
-            fs.writeFileSync(filePath, updatedFeatureContent, 'utf8');
-            console.log(`⚡ Skipped (No Scenario Outline found, but tags preserved): ${filePath}`);
-          }
-        }
+    const { source, result, target } = outcome;
+    const changed = result.content !== source;
+    for (const outline of result.malformed ?? []) {
+      logger.warn(
+        `⚠️  Left Scenario Outline "${outline.scenarioName}" (line ${outline.scenarioLine}) unconverted: its Examples have no header or no rows`
+      );
+      summary.malformedOutlines.push(outline);
+    }
+    summary.scenariosMatched += result.origins.length;
+    summary.scenariosFiltered += result.filtered ?? 0;
+    if (changed) {
+      summary.changedFiles.push(filePath);
+    }
+    if (options.check) {
+      if (changed) {
+        logger.info(createUnifiedDiff(source, result.content, filePath, `${filePath} (converted)`));
       }
-    } catch (error) {
-      console.error(`❌ Error processing file: ${filePath}`, error);
+      return;
+    }
+    if (options.dryRun) {
+      if (changed) {
+        logger.info(`📝 Would ${result.converted ? 'convert' : 'reformat'}: ${filePath}`);
+      }
+      return;
+    }
+    pickleSources.push({ uri: toManifestPath(target ?? filePath), content: result.content });
+    if (!target) {
+      summary.skippedFiles.push({ file: filePath, reason: 'unchanged' });
+      return;
     }
-  }
-}
 
-/**
- * Replaces placeholders in text with values from Examples.
- */
-function replacePlaceholders(text: string, placeholderMap: Record<string, string>): string {
-  return text.replace(/<([^>]+)>/g, (_, placeholder) => {
-    return placeholderMap[placeholder] ?? `<${placeholder}>`; // Keep as is if no value found
+    summary.writtenFiles.push(target);
+    result.origins.forEach((origin) => manifestEntries.push({ file: toManifestPath(target), origin }));
+    if (result.converted) {
+      summary.modified++;
+      logger.info(`✅ Modified: ${target}`);
+    } else {
+      logger.info(`⚡ Skipped (No Scenario Outline found, but tags preserved): ${target}`);
+    }
   });
+
+  if (options.check && summary.changedFiles.length) {
+    logger.info(`❌ ${summary.changedFiles.length} file(s) are not in converted form`);
+  }
+  if (options.manifestPath && !options.check && !options.dryRun) {
+    writeManifest(options.manifestPath, { version: 1, generator: 'convert', entries: manifestEntries });
+    logger.info(`🗺️  Wrote manifest: ${options.manifestPath}`);
+  }
+  if (options.picklesPath && !options.check && !options.dryRun) {
+    writePickleMessages(options.picklesPath, pickleSources, options.language);
+    logger.info(`🥒 Wrote pickles: ${options.picklesPath}`);
+  }
+
+  summary.timings = timings.finish();
+  logger.info(formatTimings(files.length, summary.timings));
+  return summary;
 }
 
 /**
- * Converts a Scenario Outline to a Scenario by replacing placeholders with Example values.
+ * Reads, converts and (unless checking) writes one file. `target` is where it was written, if it was;
+ * parse and I/O errors are returned rather than thrown (unless failing fast), so that the other files
+ * are still processed.
  */
-function processScenarioOutline(scenario: messages.Scenario): messages.Scenario | null {
-  if (scenario.examples.length === 0) {
-    return null; // No Examples → No need to modify
-  }
+async function convertFile(
+  filePath: string,
+  options: ProcessFeatureFilesOptions,
+  baseDirectory: string,
+  timings: TimingStats
+): Promise<{ source: string; result: ConvertResult; target?: string } | { error: FeatureFileError }> {
+  try {
+    // ✅ Read and convert the feature file **individually**
+    const uri = toManifestPath(filePath);
+    const source = await timed(timings, 'readMs', () =>
+      withIoError(filePath, 'read', () => fs.promises.readFile(filePath, 'utf8'))
+    );
+    const dataFiles = await timed(timings, 'readMs', () => readReferencedDataFiles(source, uri));
+    const result = await timed(timings, 'parseMs', () =>
+      convertOutlineSource(source, {
+        uri,
+        readDataFile: (dataFile) => dataFiles.get(dataFile),
+        language: options.language,
+        includeNames: options.includeNames,
+        excludeNames: options.excludeNames,
+        inlineBackgrounds: options.inlineBackgrounds,
+        expansion: options.expansion
+      })
+    );
+    if (options.check || options.dryRun) {
+      return { source, result };
+    }
 
-  const example = scenario.examples[0]; // Only 1 Example guaranteed
-  if (!example.tableHeader || !example.tableBody || example.tableBody.length === 0) {
-    return null; // Malformed Examples → Ignore
+    // ✅ Write to the output directory (every file) or back to the original file (changed ones only)
+    let target: string | undefined;
+    if (options.outputDirectory) {
+      target = path.join(options.outputDirectory, path.relative(baseDirectory, filePath));
+    } else if (result.content !== source) {
+      target = filePath;
+    }
+    if (target) {
+      const outPath = target;
+      await timed(timings, 'writeMs', () =>
+        withIoError(outPath, 'write', () => fs.outputFile(outPath, result.content, 'utf8'))
+      );
+    }
+    return { source, result, target };
+  } catch (error) {
+    if (options.failFast || !(error instanceof GherkinParseError || error instanceof FeatureIoError)) {
+      throw error;
+    }
+    return { error };
   }
+}
 
+/**
+ * Converts a Scenario Outline to a Scenario by replacing placeholders with the values of one Examples row.
+ */
+function processScenarioOutline(
+  scenario: messages.Scenario,
+  example: messages.Examples,
+  row: messages.TableRow,
+  language: string
+): messages.Scenario {
   const placeholderMap: Record<string, string> = {};
 
-  // ✅ Create a placeholder-value mapping using the first row of Examples
-  example.tableHeader.cells.forEach((cell, i) => {
-    placeholderMap[cell.value] = example.tableBody[0].cells[i]?.value || ''; // Use first row values
+  // ✅ Create a placeholder-value mapping using the row values
+  example.tableHeader!.cells.forEach((cell, i) => {
+    placeholderMap[cell.value] = row.cells[i]?.value || '';
   });
 
   const newId = IdGenerator.uuid();
@@ -147,6 +439,7 @@ function processScenarioOutline(scenario: messages.Scenario): messages.Scenario
   // ✅ Generate a new Scenario with replaced placeholders
   return {
     ...scenario,
+    keyword: scenarioKeyword(language), // e.g. "Szenario" instead of "Szenariogrundriss"
     examples: [], // Remove Examples section
     name: replacePlaceholders(scenario.name, placeholderMap),
     steps: scenario.steps.map((step) => ({
@@ -155,9 +448,9 @@ function processScenarioOutline(scenario: messages.Scenario): messages.Scenario
       dataTable: step.dataTable
         ? {
             ...step.dataTable,
-            rows: step.dataTable.rows.map((row) => ({
-              ...row,
-              cells: row.cells.map((cell) => ({
+            rows: step.dataTable.rows.map((tableRow) => ({
+              ...tableRow,
+              cells: tableRow.cells.map((cell) => ({
                 ...cell,
                 value: replacePlaceholders(cell.value, placeholderMap)
               }))
@@ -172,171 +465,3 @@ function processScenarioOutline(scenario: messages.Scenario): messages.Scenario
     tags: scenarioTags // ✅ Preserve Scenario tags + Move Example tags
   };
 }
-
-/**
- * Formats a feature file with updated scenarios, background, and tags.
- */
-function formatFeatureFile(
-  feature: messages.Feature,
-  featureTags: messages.Tag[],
-  background: messages.Background | null,
-  rule: messages.Rule | null,
-  scenario: messages.Scenario
-): string {
-  let featureContent = '';
-
-  // 🏷 Feature-level tags first
-  if (featureTags.length > 0) {
-    const tagsStr = featureTags.map((tag) => tag.name).join(' ');
-    featureContent += `${tagsStr}\n`;
-  }
-
-  featureContent += `Feature: ${feature.name}\n\n`;
-  if (feature.description) {
-    featureContent += ` ${feature.description}\n\n`; // ✅ PRESERVE feature description
-  }
-
-  // ✅ Include Feature Background before all scenarios and Rules if present
-  if (background) {
-    featureContent += `Background: ${background.name}\n`; // ✅ PRESERVE background TITLE HERE
-    if (background.description) {
-      featureContent += ` ${background.description}\n`; // ✅ PRESERVE background description
-    }
-    background.steps.forEach((step) => {
-      featureContent += `  ${step.keyword} ${step.text}\n`;
-    });
-    featureContent += `\n`;
-  }
-
-  // ✅ Include Rule if present
-  if (rule) {
-    if (rule.tags.length > 0) {
-      featureContent += `${rule.tags.map((tag) => tag.name).join(' ')}\n`;
-    }
-    featureContent += `Rule: ${rule.name}\n\n`;
-    if (rule.description) {
-      featureContent += ` ${rule.description}\n\n`; // ✅ PRESERVE rule description
-    }
-
-    rule.children.forEach((ruleChild) => {
-      if (ruleChild.background) {
-        featureContent += `Background: ${ruleChild.background.name}\n`;
-        if (ruleChild.background.description) {
-          featureContent += ` ${ruleChild.background.description}\n`; // ✅ PRESERVE rule background description
-        }
-        ruleChild.background.steps.forEach((step) => {
-          featureContent += `  ${step.keyword} ${step.text}\n`;
-        });
-        featureContent += `\n`;
-      }
-    });
-  }
-
-  // 🏷 Scenario-level tags
-  const scenarioTags: messages.Tag[] = [...(scenario.tags || [])];
-  if (scenarioTags.length > 0) {
-    const scenarioTagsStr = scenarioTags.map((tag) => tag.name).join(' ');
-    featureContent += `${scenarioTagsStr}\n`;
-  }
-
-  // ✅ Include the updated Scenario
-  featureContent += `Scenario: ${scenario.name}\n`;
-  if (scenario.description) {
-    featureContent += ` ${scenario.description}\n`; // ✅ PRESERVE scenario description
-  }
-
-  // ✅ Include scenario steps with out merging backgrounds
-  scenario.steps.forEach((step) => {
-    featureContent += `  ${step.keyword} ${step.text}\n`;
-
-    // ✅ Preserve Data Tables
-    if (step.dataTable) {
-      featureContent += formatDataTable(step.dataTable);
-    }
-
-    // ✅ Preserve DocStrings
-    if (step.docString) {
-      featureContent += formatDocString(step.docString);
-    }
-  });
-
-  return featureContent;
-}
-
-/**
- * Formats a Data Table properly
- */
-function formatDataTable(dataTable: messages.DataTable): string {
-  let tableContent = '';
-  dataTable.rows.forEach((row) => {
-    tableContent += `    | ${row.cells.map((cell) => cell.value).join(' | ')} |\n`;
-  });
-  return tableContent;
-}
-
-/**
- * Formats a Gherkin DocString while preserving its original delimiter.
- *
- * ### Gherkin DocStrings:
- * In Gherkin, DocStrings allow multi-line string inputs and can be enclosed using:
- * - **Triple Quotes (`"""`)** (Default)
- * - **Triple Backticks (`` ``` ``)** (Alternative format)
- *
- * This function ensures:
- * ✅ **Original delimiter is preserved** (`"""` or `` ``` ``).
- * ✅ **Content is properly indented** (for readability).
- * ✅ **Unnecessary leading/trailing spaces are trimmed**.
- *
- * ---
- *
- * @param {messages.DocString} docString - The DocString object from the Gherkin AST.
- * @returns {string} - The formatted DocString as a string.
- *
- * ---
- *
- * ### **Example Usage**
- *
- * #### 📌 **Input (Triple Quotes)**
- * ```gherkin
- * Scenario: Fetch user data
- *   Given the API returns:
- *     """
- *     {
- *       "id": 1,
- *       "name": "John Doe"
- *     }
- *     """
- * ```
- * ✅ **Output (Preserved `"""` Delimiter)**
- * ```gherkin
- *     """
- *     {
- *       "id": 1,
- *       "name": "John Doe"
- *     }
- *     """
- * ```
- *
- * ---
- *
- * #### 📌 **Input (Triple Backticks)**
- * ```gherkin
- * Scenario: Fetch system logs
- *   Given the system logs contain:
- *     ```
- *     Error: Service Unavailable
- *     Code: 503
- *     ```
- * ```
- * ✅ **Output (Preserved ``` Delimiter)**
- * ```gherkin
- *     ```
- *     Error: Service Unavailable
- *     Code: 503
- *     ```
- * ```
- */
-function formatDocString(docString: messages.DocString): string {
-  const delimiter = docString.delimiter || '"""'; // Default to triple quotes
-  return `    ${delimiter}\n    ${docString.content.trim()}\n    ${delimiter}\n`;
-}
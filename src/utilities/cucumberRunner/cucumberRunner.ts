@@ -0,0 +1,263 @@
+import {
+  loadConfiguration,
+  runCucumber,
+  ILoadConfigurationOptions,
+  IRunConfiguration,
+  IRunEnvironment,
+  IRunResult
+} from '@cucumber/cucumber/api';
+import { Envelope } from '@cucumber/messages';
+import * as fs from 'fs-extra';
+import { glob } from 'glob';
+import * as os from 'os';
+import * as path from 'path';
+import { commonDirectory } from '../../helpers/fileUtils';
+import { consoleLogger } from '../../helpers/logger';
+import { ExpansionMode } from '../../helpers/pickles';
+import { RunOptions } from '../../helpers/runResult';
+import { processFeatureFiles, ConvertSummary } from '../convertToScenario';
+import { parseSelectors, performSetup, FeatureSelector, SplitParams, SplitSummary } from '../featuresplitter';
+
+/**
+ * Options of the Cucumber integration:
+ * - mode?: `split` (default) or `convert` the feature files before the run
+ * - configuration?: where Cucumber finds its configuration, as for its `loadConfiguration`
+ *   (e.g. `{ profiles: ['ci'], provided: { paths: ['features/login.feature:12'] } }`)
+ * - environment?: the Cucumber project environment (working directory, output streams...)
+ * - outputDirectory?: folder of the generated files, default: a new temporary folder. It must be empty
+ *   or missing: only the generated files are removed from it afterwards
+ * - keepOutput?: leave the generated files in place after the run
+ * - split?: more parameters of the split (granularity, nameTemplate, manifestPath...), see {@link SplitParams}
+ * - inlineBackgrounds?: inline the Background steps into every generated scenario
+ * - expansion?: `pickles` writes the outline rows as the scenarios Gherkin's compiler makes of them
+ * - logger?/failFast?: see {@link RunOptions}
+ */
+export interface CucumberSetupOptions extends RunOptions {
+  mode?: 'split' | 'convert';
+  configuration?: ILoadConfigurationOptions;
+  environment?: IRunEnvironment;
+  outputDirectory?: string;
+  keepOutput?: boolean;
+  split?: Partial<SplitParams>;
+  inlineBackgrounds?: boolean;
+  expansion?: ExpansionMode;
+}
+
+/**
+ * A Cucumber run rewritten to use the generated files:
+ * - runConfiguration: pass it to Cucumber's `runCucumber`
+ * - outputDirectory: where the generated files are
+ * - split/convert: summary of the preparation, depending on the mode
+ * - cleanup: removes the generated files (unless `keepOutput` is set), and the output folder if the
+ *   run created it
+ */
+export interface PreparedCucumberRun {
+  runConfiguration: IRunConfiguration;
+  outputDirectory: string;
+  split?: SplitSummary;
+  convert?: ConvertSummary;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Outcome of {@link runCucumberWithSetup}; `runResult` is missing when the preparation failed
+ * and Cucumber was not run.
+ */
+export interface CucumberSetupResult {
+  success: boolean;
+  runResult?: IRunResult;
+  split?: SplitSummary;
+  convert?: ConvertSummary;
+}
+
+/** Cucumber's default, when no paths are configured. */
+const DEFAULT_FEATURE_PATHS = ['features/**/*.feature'];
+
+/**
+ * Loads the Cucumber configuration, splits (or converts) the feature files of its `paths` into
+ * the output folder and rewrites the configuration to run them instead.
+ *
+ * The split honors Cucumber's own filters: its tag expression, `names` and `path:line` references
+ * select what is written. The filters are kept in the rewritten configuration too, so that Cucumber
+ * runs exactly the scenarios it would have run on the original files. Without `require`/`import`
+ * paths, the support code is still loaded from the folders of the original feature files.
+ *
+ * @throws {Error} for line references in `convert` mode, whose line numbers don't survive the conversion,
+ *   or an `outputDirectory` that is not empty.
+ */
+export async function prepareCucumberRun(options: CucumberSetupOptions = {}): Promise<PreparedCucumberRun> {
+  const cwd = options.environment?.cwd ?? process.cwd();
+  const { runConfiguration } = await loadConfiguration(options.configuration, options.environment);
+  const { sources, support } = runConfiguration;
+
+  const selectors = expandFeaturePaths(cwd, sources.paths.length ? sources.paths : DEFAULT_FEATURE_PATHS);
+  const outputDirectory = path.resolve(
+    cwd,
+    options.outputDirectory ?? fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-cucumber-'))
+  );
+  // Never write into (or clean up) a folder holding files of the caller
+  const created = !options.outputDirectory || !(await fs.pathExists(outputDirectory));
+  if (!created && (await fs.readdir(outputDirectory)).length) {
+    throw new Error(`The output directory must be empty: ${outputDirectory}`);
+  }
+  const cleanup = async () => {
+    if (options.keepOutput) {
+      return;
+    }
+    if (created) {
+      await fs.remove(outputDirectory);
+    } else {
+      const summary = prepared.split ?? prepared.convert;
+      await removeGeneratedFiles(outputDirectory, summary?.writtenFiles ?? []);
+    }
+  };
+
+  const prepared: PreparedCucumberRun = {
+    runConfiguration: {
+      ...runConfiguration,
+      sources: { ...sources, paths: [outputDirectory] },
+      support: hasSupportPaths(support)
+        ? support
+        : {
+            ...support,
+            importPaths: featureDirectories(
+              cwd,
+              selectors.map((selector) => selector.path)
+            )
+          }
+    },
+    outputDirectory,
+    cleanup
+  };
+
+  try {
+    if (options.mode === 'convert') {
+      if (selectors.some(({ lines }) => lines.length)) {
+        throw new Error('Line references (path:line) are only supported in split mode');
+      }
+      const files = selectors.map((selector) => selector.path);
+      await fs.ensureDir(outputDirectory);
+      prepared.convert = await processFeatureFiles(files, {
+        outputDirectory,
+        baseDirectory: commonDirectory(files),
+        language: sources.defaultDialect,
+        inlineBackgrounds: options.inlineBackgrounds,
+        expansion: options.expansion,
+        logger: options.logger,
+        failFast: options.failFast
+      });
+    } else {
+      prepared.split = await performSetup({
+        ...options.split,
+        sourceSpecDirectory: commonDirectory(selectors.map((selector) => selector.path)),
+        tmpSpecDirectory: outputDirectory,
+        selectors: selectors.map((selector) => [selector.path, ...selector.lines].join(':')),
+        language: sources.defaultDialect,
+        tagExpression: sources.tagExpression || undefined,
+        includeNames: sources.names.length ? sources.names : undefined,
+        inlineBackgrounds: options.inlineBackgrounds ?? options.split?.inlineBackgrounds,
+        expansion: options.expansion ?? options.split?.expansion,
+        logger: options.logger,
+        failFast: options.failFast,
+        cleanTmpSpecDirectory: false
+      });
+    }
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+  return prepared;
+}
+
+/**
+ * Prepares the feature files (see {@link prepareCucumberRun}), runs Cucumber on them and cleans
+ * up afterwards. Cucumber is not run when a feature file can't be prepared.
+ *
+ * @param onMessage - receives every message Cucumber emits; their `uri`s are the generated files
+ */
+export async function runCucumberWithSetup(
+  options: CucumberSetupOptions = {},
+  onMessage?: (message: Envelope) => void
+): Promise<CucumberSetupResult> {
+  const logger = options.logger ?? consoleLogger;
+  const prepared = await prepareCucumberRun(options);
+  const { split, convert } = prepared;
+  try {
+    const summary = split ?? convert!;
+    if (summary.fileErrors.length) {
+      logger.error(`❌ ${summary.fileErrors.length} feature file(s) could not be prepared, Cucumber was not run`);
+      return { success: false, split, convert };
+    }
+
+    const runResult = await runCucumber(prepared.runConfiguration, options.environment, onMessage);
+    return { success: runResult.success, runResult, split, convert };
+  } finally {
+    await prepared.cleanup();
+  }
+}
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+/**
+ * Expands Cucumber's feature paths (files, folders, globs, `path:line` and `@rerun` files)
+ * into the feature files they select, as Cucumber does.
+ */
+function expandFeaturePaths(cwd: string, featurePaths: string[]): FeatureSelector[] {
+  const selectors = parseSelectors(
+    featurePaths.map((featurePath) =>
+      // A rerun file, e.g. `@rerun.txt`, is named with its `@`
+      path.basename(featurePath).startsWith('@') ? `@${path.resolve(cwd, featurePath)}` : featurePath
+    )
+  );
+  const files = selectors.flatMap((selector) =>
+    glob
+      .sync(selector.path, { cwd, absolute: true, windowsPathsNoEscape: true })
+      .flatMap((match) =>
+        path.extname(match) === '' ? glob.sync('**/*.feature', { cwd: match, absolute: true }) : [match]
+      )
+      .sort()
+      .map((file) => [path.normalize(file), ...selector.lines].join(':'))
+  );
+  return parseSelectors(files);
+}
+
+/**
+ * Removes the generated files from a folder the run did not create, and the subfolders they leave empty.
+ */
+async function removeGeneratedFiles(outputDirectory: string, files: string[]): Promise<void> {
+  for (const file of files) {
+    await fs.remove(file);
+    for (
+      let dir = path.dirname(path.resolve(file));
+      dir.startsWith(outputDirectory + path.sep);
+      dir = path.dirname(dir)
+    ) {
+      if ((await fs.readdir(dir)).length) {
+        break;
+      }
+      await fs.remove(dir);
+    }
+  }
+}
+
+function hasSupportPaths(support: IRunConfiguration['support']): boolean {
+  return Boolean(support.requirePaths?.length || support.importPaths?.length);
+}
+
+/**
+ * The folders Cucumber loads the support code from when no `require`/`import` paths are configured:
+ * the `features` folder above each feature file, or else its own folder.
+ */
+function featureDirectories(cwd: string, featureFiles: string[]): string[] {
+  const directories = featureFiles.map((file) => {
+    for (let dir = path.dirname(file); path.dirname(dir) !== dir; dir = path.dirname(dir)) {
+      if (path.basename(path.dirname(dir)) === 'features') {
+        return path.relative(cwd, path.dirname(dir));
+      }
+    }
+    return path.relative(cwd, path.dirname(file));
+  });
+  return [...new Set(directories)];
+}
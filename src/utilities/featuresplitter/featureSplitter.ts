@@ -1,14 +1,61 @@
 import * as messages from '@cucumber/messages';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as glob from 'glob';
-import { streamToArray } from '../../helpers/streamUtils';
-import { gatherAllTagNames, collectScenarioEntries, expandScenarioOutlineRows } from '../../helpers/gherkinUtils';
-// Gherkin streams
-import { GherkinStreams } from '@cucumber/gherkin-streams';
-
-// For typed Gherkin AST objects and ID generator
-import { IdGenerator } from '@cucumber/messages';
+import { discoverFeatureFiles, singleFeatureSource, FeatureSource } from '../../helpers/fileUtils';
+import {
+  gatherAllTagNames,
+  collectScenarioEntries,
+  expandScenarioOutlineRows,
+  inlineBackgrounds
+} from '../../helpers/gherkinUtils';
+import { parseFeatureSource } from '../../helpers/parseUtils';
+import { anchorComments, printFeatureLines, CommentAnchors, PrintedLine } from '../../helpers/gherkinPrinter';
+import { FeatureFileError, FeatureIoError, GherkinParseError } from '../../helpers/errors';
+import { consoleLogger } from '../../helpers/logger';
+import { emptyRunResult, withIoError, RunOptions, RunResult } from '../../helpers/runResult';
+import {
+  dataRowSource,
+  mergeExternalExamples,
+  readReferencedDataFiles,
+  removeDataTags,
+  ExternalDataOptions
+} from '../../helpers/externalExamples';
+import { createNameFilter, NameFilterOptions } from '../../helpers/nameFilter';
+import {
+  checkExpansion,
+  compilePickles,
+  pickleKey,
+  scenarioFromPickle,
+  writePickleMessages,
+  ExpansionMode
+} from '../../helpers/pickles';
+import { formatTimings, startTimings, timed, TimingStats } from '../../helpers/timings';
+import {
+  makeScenarioOrigin,
+  DataRowOrigin,
+  ScenarioOrigin,
+  toManifestPath,
+  writeManifest,
+  ManifestEntry
+} from '../../helpers/manifest';
+
+import { assignShards, isSharded, loadDurations, shardFolderName, ShardParams, ShardSummary } from './sharding';
+import { checkGranularity, groupByGranularity, GranularityParams, GroupingKeys } from './granularity';
+import { findSelector, parseSelectors } from './selectors';
+import { checkNameTemplate, dedupeNames, formatOutputName, NamingParams } from './naming';
+import {
+  defaultCachePath,
+  hashContent,
+  IncrementalParams,
+  IncrementalSummary,
+  loadSplitCache,
+  readCachedOutputs,
+  removeStaleOutputs,
+  saveSplitCache,
+  splitFingerprint,
+  CachedOutput,
+  SplitCache
+} from './incremental';
 
 // Tag expression parser
 import parseTagExpression from '@cucumber/tag-expressions';
@@ -20,261 +67,644 @@ interface TagExpressionNode {
 
 /**
  * Parameters for splitting:
- * - sourceSpecDirectory: folder containing .feature files
- * - tmpSpecDirectory: output folder
+ * - sourceSpecDirectory: folder(s) containing .feature files, searched recursively
+ * - tmpSpecDirectory: output folder; outputs mirror the source folder layout
  * - singleFile?: optional single .feature
- * - language?: optional # language: <xx>
+ * - include?: globs (relative to each source folder) of the files to split, default: every .feature file
+ * - exclude?: globs (relative to each source folder) of the files to skip
+ * - language?: dialect of the files without a `# language:` header, default: en
  * - tagExpression?: optional scenario filter
+ * - includeNames?/excludeNames?: optional name filters (regular expressions), see {@link NameFilterOptions}
+ * - selectors?: `path[:line]...` references of the files, scenarios or rows to split (see {@link SplitOptions} `lines`),
+ *   or `@<rerun file>`; only the selected files are split
+ * - manifestPath?: optional JSON manifest linking every generated file to its origin
+ * - granularity?/batchSize?: what each output file holds, see {@link GranularityParams}
+ * - nameTemplate?: names of the output files, see {@link NamingParams}
+ * - inlineBackgrounds?: copy the Background steps into every scenario and drop the Background blocks
+ * - expansion?: how the Examples rows are written, see {@link SplitOptions}
+ * - picklesPath?: write the source, AST and pickle messages of the generated files there as NDJSON,
+ *   the messages Cucumber reads from them
+ * - incremental?/cachePath?: only re-split changed files, see {@link IncrementalParams}
+ * - logger?/failFast?: where the progress goes, and whether to stop at the first failing file, see {@link RunOptions}
+ * - shardCount?/shardIndex?/durationsReport?: optional sharding, see {@link ShardParams}
  */
-export interface SplitParams {
-  sourceSpecDirectory: string;
+export interface SplitParams
+  extends ShardParams,
+    GranularityParams,
+    NamingParams,
+    IncrementalParams,
+    NameFilterOptions,
+    RunOptions {
+  sourceSpecDirectory: string | string[];
   tmpSpecDirectory: string;
   singleFile?: string;
+  include?: string[];
+  exclude?: string[];
   language?: string;
   tagExpression?: string;
+  selectors?: string[];
+  manifestPath?: string;
+  inlineBackgrounds?: boolean;
+  expansion?: ExpansionMode;
+  picklesPath?: string;
   cleanTmpSpecDirectory: boolean;
 }
 
 /**
- * Splits each scenario (including scenario outlines) into a separate .feature file.
- * If a scenario outline has multiple rows, we produce multiple scenario outlines—
- * each with exactly one row. The scenario outline's name stays the same, placeholders
- * remain unexpanded, and we forcibly apply the feature-level background to all scenarios.
+ * Outcome of a split run, so callers (e.g. the CLI) can tell whether anything was produced.
+ * `filesWritten` counts the outputs of the run, unchanged ones included; `writtenFiles` only lists
+ * the files actually written. `parseErrors` describes the files of `fileErrors` that could not be parsed.
  */
-export async function splitScenarioOutlinesByRows(params: SplitParams): Promise<void> {
-  const { sourceSpecDirectory, tmpSpecDirectory, singleFile, language, tagExpression } = params;
+export interface SplitSummary extends RunResult {
+  featureFiles: number;
+  filesWritten: number;
+  scenariosWritten: number;
+  parseErrors: string[];
+  shards?: ShardSummary[];
+  incremental?: IncrementalSummary;
+  timings?: TimingStats;
+}
 
-  // 1) Gather .feature files (recursively). If you only want top-level, use `/*.feature`
-  let featureFiles: string[] = [];
-  if (singleFile) {
-    featureFiles = [singleFile];
-  } else {
-    const path = `${sourceSpecDirectory}/*.feature`;
-    featureFiles = glob.sync(path);
-  }
+/**
+ * Options of the in-memory splitter:
+ * - uri?: path of the source, used for naming the outputs and in the origin metadata
+ * - language?: dialect of a source without a `# language:` header, default: en
+ * - tagExpression?: optional scenario filter, applied to every Examples row
+ * - includeNames?/excludeNames?: optional name filters, applied to every Examples row too
+ * - lines?: source lines selecting what to split, as Cucumber does: the line of a Scenario (Outline)
+ *   selects all its rows, of an Examples block its rows, of an Examples row just that row, and of a
+ *   Rule (or the Feature) all its scenarios
+ * - granularity?/batchSize?: what each output holds, default: one row or scenario, see {@link GranularityParams}
+ * - nameTemplate?: names of the outputs, default: `{feature}_{index}`, see {@link NamingParams}
+ * - directory?: folder of the source used for the `{dir}` token, default: the folder of `uri`
+ * - inlineBackgrounds?: make every output self-contained, with the Feature and Rule Background steps
+ *   at the top of each scenario instead of Background blocks
+ * - expansion?: `ast` (default) keeps every Examples row in its Scenario Outline, for Cucumber to expand;
+ *   `pickles` writes every row as the Scenario Gherkin's compiler makes of it, exactly as Cucumber runs it
+ * - readDataFile?: reads the `@data:` files, see {@link ExternalDataOptions}
+ */
+export interface SplitOptions extends GranularityParams, NamingParams, NameFilterOptions, ExternalDataOptions {
+  uri?: string;
+  directory?: string;
+  language?: string;
+  tagExpression?: string;
+  lines?: number[];
+  inlineBackgrounds?: boolean;
+  expansion?: ExpansionMode;
+}
 
-  if (!featureFiles.length) {
-    console.warn('No .feature files found.');
-    return;
-  }
+/**
+ * Where a scenario (or Scenario Outline row) of a generated file comes from.
+ */
+export type SplitOrigin = ScenarioOrigin;
 
-  // 2) Optional tag expression filter
-  let tagFilter: TagExpressionNode | null = null;
-  if (tagExpression) {
-    tagFilter = parseTagExpression(tagExpression) as TagExpressionNode;
-  }
+/**
+ * A generated .feature file.
+ * `origins` lists its scenarios/rows in order, `origin` is the first of them.
+ * `lineMap` maps its line numbers to the matching lines of the source, and `dataRows` the lines
+ * printed from rows of `@data:` files to those rows (see `ManifestEntry`).
+ */
+export interface SplitFeatureOutput {
+  fileName: string;
+  content: string;
+  origin: SplitOrigin;
+  origins: SplitOrigin[];
+  lineMap: Record<number, number>;
+  dataRows?: Record<number, DataRowOrigin>;
+}
 
-  // 3) Gherkin Streams config
-  const gherkinOptions = {
-    defaultDialect: 'en',
-    newId: IdGenerator.uuid()
-  };
+/**
+ * A scenario, or a single row of a Scenario Outline, selected for the output.
+ */
+interface SplitCandidate extends GroupingKeys {
+  rowId?: string;
+  origin: SplitOrigin;
+}
 
-  // 4) Parse each file, expand scenario outlines, filter, and write
-  for (const filePath of featureFiles) {
-    console.log(`\n📂 Processing: ${filePath}`);
+/**
+ * A feature file split in memory (or reused from the cache), or the error it failed with.
+ */
+type SplitFileResult =
+  | { uri: string; hash: string; outputs: SplitFeatureOutput[]; filtered: number; reused: boolean }
+  | { uri: string; error: FeatureFileError };
 
-    // Parse .feature -> stream -> array of Envelope
-    const envelopeStream = GherkinStreams.fromPaths([filePath], gherkinOptions);
-    const envelopes = await streamToArray(envelopeStream);
+/** Used when the caller does not say where the source comes from. */
+const DEFAULT_SOURCE_URI = 'inline.feature';
 
-    // Find gherkinDocument
-    const docEnv = envelopes.find((env) => env.gherkinDocument);
-    if (!docEnv?.gherkinDocument?.feature) {
-      console.warn(`No Feature found in: ${filePath}`);
-      continue;
-    }
+/**
+ * Splits Gherkin source text into smaller features, without touching the filesystem (unless
+ * `options.readDataFile` does).
+ * By default Scenario Outlines are split per Examples row (placeholders stay unexpanded);
+ * `granularity` keeps Examples blocks, scenarios or rules together, or batches N rows/scenarios.
+ * The feature/rule backgrounds are repeated in every output. The outputs are written in the
+ * dialect of the source, keeping its keywords and the comments of the nodes they contain.
+ *
+ * @throws {GherkinParseError} when the source is not valid Gherkin.
+ */
+export function splitFeatureSource(source: string, options: SplitOptions = {}): SplitFeatureOutput[] {
+  return splitSource(source, options).outputs;
+}
 
-    const feature = docEnv.gherkinDocument.feature;
-    const scenarioEntries = collectScenarioEntries(feature);
+/**
+ * {@link splitFeatureSource}, also counting the scenarios (or rows) left out by the filters.
+ */
+function splitSource(source: string, options: SplitOptions): { outputs: SplitFeatureOutput[]; filtered: number } {
+  const uri = options.uri ?? DEFAULT_SOURCE_URI;
+  checkGranularity(options);
+  checkNameTemplate(options.nameTemplate);
+  checkExpansion(options.expansion);
+  const { gherkinDocument } = parseFeatureSource(source, uri, false, options.language);
+  const feature =
+    gherkinDocument.feature &&
+    mergeExternalExamples(gherkinDocument.feature, uri, { readDataFile: options.readDataFile });
+  if (!feature) {
+    return { outputs: [], filtered: 0 };
+  }
+  const pickles = options.expansion === 'pickles' ? compilePickles(gherkinDocument, feature, uri) : undefined;
 
-    let scenarioCount = 0;
+  // Optional tag expression filter
+  let tagFilter: TagExpressionNode | null = null;
+  if (options.tagExpression) {
+    tagFilter = parseTagExpression(options.tagExpression) as TagExpressionNode;
+  }
+  const nameFilter = createNameFilter(options);
+  const selectedLines = options.lines && new Set(options.lines);
+
+  const candidates: SplitCandidate[] = [];
+  let filtered = 0;
+  for (const entry of collectScenarioEntries(feature)) {
+    // Expand scenario outlines that have multiple rows
+    const expandedScenarios = expandScenarioOutlineRows(entry.scenario);
+
+    // For each expanded scenario, optionally filter by tag expression
+    for (const scenarioCandidate of expandedScenarios) {
+      // ✅ Gather all relevant tags AFTER expansion
+      const combinedTags = gatherAllTagNames(feature, entry.rule, scenarioCandidate);
+      // ✅ Apply filtering AFTER gathering all tags
+      if (tagFilter && !tagFilter.evaluate(combinedTags)) {
+        filtered++;
+        continue; //✅ skip if it doesn't match
+      }
 
-    for (const entry of scenarioEntries) {
-      // Expand scenario outlines that have multiple rows
-      const expandedScenarios = expandScenarioOutlineRows(entry.scenario);
+      // Keep the rows and scenarios under one of the selected lines
+      const examples = scenarioCandidate.examples?.[0];
+      const row = examples?.tableBody?.[0];
+      const nodes = [feature, entry.rule, entry.scenario, examples, row];
+      if (selectedLines && !nodes.some((node) => node && selectedLines.has(node.location.line))) {
+        filtered++;
+        continue;
+      }
+      if (nameFilter && !nameFilter(feature, entry.rule, entry.scenario, examples, row)) {
+        filtered++;
+        continue;
+      }
 
-      // For each expanded scenario, optionally filter by tag expression
-      for (const scenarioCandidate of expandedScenarios) {
-        // ✅ Gather all relevant tags AFTER expansion
-        const combinedTags = gatherAllTagNames(feature, entry.rule, scenarioCandidate);
-        // ✅ Apply filtering AFTER gathering all tags
-        if (tagFilter && !tagFilter.evaluate(combinedTags)) {
-          continue; //✅ skip if it doesn't match
-        }
+      candidates.push({
+        scenarioId: entry.scenario.id,
+        examplesId: examples?.id,
+        ruleId: entry.rule?.id,
+        rowId: row?.id,
+        origin: makeOrigin(uri, feature, entry.rule, entry.scenario, scenarioCandidate)
+      });
+    }
+  }
 
-        scenarioCount++;
-        // Build the single-scenario .feature text
-        const scenarioText = buildSingleScenarioFeature(
-          feature,
-          entry.rule,
-          scenarioCandidate,
-          entry.featureBackgrounds,
-          entry.ruleBackgrounds,
-          language
-        );
+  // Build one .feature text per group of matching rows/scenarios
+  const comments = anchorComments({ ...gherkinDocument, feature: removeDataTags(gherkinDocument.feature!) });
+  const dataRows = new Map(
+    collectScenarioEntries(feature).flatMap(({ scenario }) =>
+      scenario.examples.flatMap((examples) => examples.tableBody.map((row) => [row.id, dataRowSource(row)] as const))
+    )
+  );
+  const outputs = groupByGranularity(candidates, options).map((group, i) => {
+    const lines = buildGroupFeature(feature, group, comments, options.inlineBackgrounds, pickles);
+    const content = lines.map((line) => line.text).join('\n') + '\n';
+    return {
+      // e.g. "Login_1.feature"
+      fileName: formatOutputName(options.nameTemplate, group[0].origin, {
+        index: i + 1,
+        content,
+        directory: options.directory ?? path.dirname(uri)
+      }),
+      content,
+      origin: group[0].origin,
+      origins: group.map((candidate) => candidate.origin),
+      lineMap: makeLineMap(lines),
+      dataRows: makeDataRowMap(lines, dataRows)
+    };
+  });
 
-        // e.g. "Login_1.feature"
-        const outName = makeOutputName(filePath, scenarioCount);
-        fs.writeFileSync(path.join(tmpSpecDirectory, outName), scenarioText, 'utf8');
-        console.log(`   -> Wrote scenario #${scenarioCount} to ${outName}`);
+  const fileNames = dedupeNames(outputs.map((output) => output.fileName));
+  return { outputs: outputs.map((output, i) => ({ ...output, fileName: fileNames[i] })), filtered };
+}
+
+/**
+ * Splits each scenario (including scenario outlines) into a separate .feature file.
+ * If a scenario outline has multiple rows, we produce multiple scenario outlines—
+ * each with exactly one row. The scenario outline's name stays the same, placeholders
+ * remain unexpanded, and we forcibly apply the feature-level background to all scenarios.
+ * This is the file-based wrapper around {@link splitFeatureSource}.
+ */
+export async function splitScenarioOutlinesByRows(params: SplitParams): Promise<SplitSummary> {
+  const { sourceSpecDirectory, tmpSpecDirectory, singleFile, language, tagExpression } = params;
+  const sourceRoots = Array.isArray(sourceSpecDirectory) ? sourceSpecDirectory : [sourceSpecDirectory];
+  const sharded = isSharded(params);
+  const logger = params.logger ?? consoleLogger;
+  checkGranularity(params);
+  checkNameTemplate(params.nameTemplate);
+  checkExpansion(params.expansion);
+  createNameFilter(params); // reject invalid expressions before reading any file
+
+  // 1) Gather .feature files recursively from every source root
+  let featureFiles: FeatureSource[] = singleFile
+    ? [singleFeatureSource(singleFile, sourceRoots)]
+    : discoverFeatureFiles(sourceRoots, params.include, params.exclude, tmpSpecDirectory);
+
+  // Only keep the files of the `path:line` selectors
+  const selectors = params.selectors && parseSelectors(params.selectors);
+  if (selectors) {
+    featureFiles = featureFiles.filter(({ filePath }) => findSelector(selectors, filePath));
+    for (const selector of selectors) {
+      if (!featureFiles.some(({ filePath }) => findSelector([selector], filePath))) {
+        logger.warn(`⚠️  Selected file not found in the source folders: ${selector.path}`);
       }
     }
+  }
 
-    if (scenarioCount === 0) {
-      console.log(`   -> No scenarios matched or found in file: ${filePath}`);
+  const summary: SplitSummary = {
+    featureFiles: featureFiles.length,
+    filesWritten: 0,
+    scenariosWritten: 0,
+    parseErrors: [],
+    ...emptyRunResult()
+  };
+  if (!featureFiles.length) {
+    logger.warn('No .feature files found.');
+    if (!params.incremental) {
+      return summary; // an incremental run still deletes the outputs of the removed files
     }
   }
-}
-
-// --------------------------------------------------------------------------
-// A) Build single-scenario .feature
-// --------------------------------------------------------------------------
 
-function buildSingleScenarioFeature(
-  feature: messages.Feature,
-  rule: messages.Rule | undefined,
-  scenario: messages.Scenario,
-  featureBackgrounds: messages.Background[],
-  ruleBackgrounds: messages.Background[],
-  lang?: string
-): string {
-  const lines: string[] = [];
-
-  // # language: <xx> if not 'en'
-  if (lang && lang.toLowerCase() !== 'en') {
-    lines.push(`# language: ${lang}`);
+  // Incremental runs reuse the outputs of unchanged files, if split with the same parameters
+  const cachePath = params.cachePath ?? defaultCachePath(tmpSpecDirectory);
+  const previousCache = params.incremental ? loadSplitCache(cachePath) : undefined;
+  const cache: SplitCache = {
+    version: 1,
+    fingerprint: splitFingerprint({
+      sourceRoots,
+      language,
+      tagExpression,
+      includeNames: params.includeNames,
+      excludeNames: params.excludeNames,
+      selectors,
+      granularity: params.granularity,
+      batchSize: params.batchSize,
+      nameTemplate: params.nameTemplate,
+      inlineBackgrounds: params.inlineBackgrounds,
+      expansion: params.expansion
+    }),
+    sources: {}
+  };
+  const reusable = previousCache?.fingerprint === cache.fingerprint ? previousCache.sources : {};
+  if (params.incremental) {
+    summary.incremental = { reusedFeatureFiles: 0, unchangedFiles: 0, deletedFiles: 0, dataFiles: [] };
   }
 
-  // Feature tags
-  if (feature.tags?.length) {
-    lines.push(feature.tags.map((t) => t.name).join(' '));
-  }
-  lines.push(`Feature: ${feature.name}`);
-  if (feature.description) {
-    lines.push(...feature.description.split('\n'));
+  // 2) Split each file in memory
+  const timings = startTimings();
+  const splitFile = async ({ filePath, root }: FeatureSource): Promise<SplitFileResult> => {
+    const uri = toManifestPath(filePath);
+    try {
+      const source = await timed(timings.stats, 'readMs', () =>
+        withIoError(filePath, 'read', () => fs.promises.readFile(filePath, 'utf8'))
+      );
+      // The data files of `@data:` tags are part of the source, as far as the cache is concerned
+      const dataFiles = await timed(timings.stats, 'readMs', () => readReferencedDataFiles(source, uri));
+      for (const dataFile of dataFiles.keys()) {
+        if (summary.incremental && !summary.incremental.dataFiles.includes(dataFile)) {
+          summary.incremental.dataFiles.push(dataFile);
+        }
+      }
+      const dataContents = [...dataFiles].map(([dataFile, data]) => data ?? `missing: ${dataFile}`);
+      const hash = hashContent([source, ...dataContents].join('\0'));
+
+      const cachedOutputs = params.incremental ? readCachedOutputs(reusable[uri], hash, tmpSpecDirectory) : undefined;
+      if (cachedOutputs) {
+        const outputs = cachedOutputs.map(({ output, content }) => ({
+          fileName: output.fileName,
+          content,
+          origin: output.origins[0],
+          origins: output.origins,
+          lineMap: output.lineMap,
+          dataRows: output.dataRows
+        }));
+        return { uri, hash, outputs, filtered: reusable[uri].filtered ?? 0, reused: true };
+      }
+
+      const selectedLines = selectors && findSelector(selectors, filePath)?.lines;
+      const { outputs, filtered } = await timed(timings.stats, 'parseMs', () =>
+        splitSource(source, {
+          uri,
+          language,
+          tagExpression,
+          includeNames: params.includeNames,
+          excludeNames: params.excludeNames,
+          lines: selectedLines?.length ? selectedLines : undefined,
+          granularity: params.granularity,
+          batchSize: params.batchSize,
+          nameTemplate: params.nameTemplate,
+          inlineBackgrounds: params.inlineBackgrounds,
+          expansion: params.expansion,
+          directory: path.relative(root, path.dirname(filePath)),
+          readDataFile: (dataFile) => dataFiles.get(dataFile)
+        })
+      );
+      return { uri, hash, outputs, filtered, reused: false };
+    } catch (error) {
+      // Report the files that can't be read or parsed instead of silently skipping them
+      if (params.failFast || !(error instanceof GherkinParseError || error instanceof FeatureIoError)) {
+        throw error;
+      }
+      return { uri, error };
+    }
+  };
+  const results: SplitFileResult[] = [];
+  for (const featureFile of featureFiles) {
+    results.push(await splitFile(featureFile));
   }
-  lines.push('');
 
-  // forcibly apply feature-level backgrounds
-  featureBackgrounds.forEach((bg) => {
-    lines.push(...buildBackgroundLines(bg));
-    lines.push('');
-  });
+  // Report and plan the outputs in source order
+  const planned: { outputDir: string; output: SplitFeatureOutput; cached: CachedOutput }[] = [];
+  featureFiles.forEach(({ filePath, outputDir }, i) => {
+    const result = results[i];
+    logger.info(`\n📂 Processing: ${filePath}`);
+    if ('error' in result) {
+      const { error } = result;
+      summary.fileErrors.push(error);
+      if (error instanceof GherkinParseError) {
+        logger.error(`❌ Parse error in ${filePath}: ${error.message}`);
+        summary.parseErrors.push(`${filePath}: ${error.message}`);
+        summary.skippedFiles.push({ file: filePath, reason: 'parse-error' });
+      } else {
+        logger.error(`❌ ${error.message}`);
+        summary.skippedFiles.push({ file: filePath, reason: 'io-error' });
+      }
+      return;
+    }
 
-  // If scenario is in a Rule
-  if (rule) {
-    if (rule.tags?.length) {
-      lines.push(rule.tags.map((t) => t.name).join(' '));
+    const { uri, hash, outputs, filtered, reused } = result;
+    if (reused) {
+      summary.incremental!.reusedFeatureFiles++;
+      logger.info(`   -> Unchanged since the last run`);
     }
-    lines.push(`Rule: ${rule.name}`);
-    if (rule.description) {
-      lines.push(...rule.description.split('\n'));
+
+    const cached = outputs.map(({ fileName, content, origins, lineMap, dataRows }) => ({
+      fileName,
+      contentHash: hashContent(content),
+      origins,
+      lineMap,
+      dataRows
+    }));
+    cache.sources[uri] = { hash, filtered, outputs: cached };
+    outputs.forEach((output, j) => planned.push({ outputDir, output, cached: cached[j] }));
+    const scenarios = outputs.reduce((count, output) => count + output.origins.length, 0);
+    summary.scenariosMatched += scenarios;
+    summary.scenariosFiltered += filtered;
+    logger.info(`   -> Found ${scenarios} scenario(s) for ${outputs.length} file(s)`);
+    if (outputs.length === 0) {
+      logger.info(`   -> No scenarios matched or found in file: ${filePath}`);
+      summary.skippedFiles.push({ file: filePath, reason: 'no-match' });
     }
-    lines.push('');
+  });
 
-    // rule-level backgrounds
-    ruleBackgrounds.forEach((bg) => {
-      lines.push(...buildBackgroundLines(bg));
-      lines.push('');
+  // Names are unique per source file; make them unique per output folder too
+  const relativePaths = dedupeNames(planned.map(({ outputDir, output }) => path.join(outputDir, output.fileName)));
+
+  // 3) Optionally distribute the scenarios over shards
+  let shards: number[] = [];
+  if (sharded) {
+    const durations = params.durationsReport ? loadDurations(params.durationsReport) : undefined;
+    const assignment = assignShards(
+      planned.map(({ output }) => output.origins),
+      params.shardCount!,
+      durations
+    );
+    shards = assignment.shards;
+    summary.shards = assignment.summaries;
+    assignment.summaries.forEach((shard) => {
+      const duration = shard.duration === undefined ? '' : `, ~${(shard.duration / 1000).toFixed(1)}s`;
+      logger.info(`🧩 Shard ${shard.index}/${params.shardCount}: ${shard.scenarios} scenario(s)${duration}`);
     });
   }
 
-  lines.push(...buildScenarioText(scenario));
+  // 4) Write the outputs (of the selected shard, or each shard into its own folder)
+  const manifestEntries: ManifestEntry[] = [];
+  const written = new Set<string>();
+  const writes: { relativePath: string; outPath: string; content: string }[] = [];
+  planned.forEach(({ output, cached }, i) => {
+    if (sharded && params.shardIndex !== undefined && shards[i] !== params.shardIndex) {
+      return;
+    }
 
-  return lines.join('\n') + '\n';
-}
+    const shardDir = sharded && params.shardIndex === undefined ? shardFolderName(shards[i]) : '';
+    const relativePath = path.join(shardDir, relativePaths[i]);
+    const outPath = path.join(tmpSpecDirectory, relativePath);
+    cached.file = relativePath.split(path.sep).join('/');
+    written.add(cached.file);
+    writes.push({ relativePath, outPath, content: output.content });
+    summary.filesWritten++;
+    summary.scenariosWritten += output.origins.length;
+    manifestEntries.push({
+      file: toManifestPath(outPath),
+      origin: output.origin,
+      origins: output.origins.length > 1 ? output.origins : undefined,
+      lineMap: output.lineMap,
+      dataRows: output.dataRows
+    });
+  });
 
-function buildBackgroundLines(bg: messages.Background): string[] {
-  const out: string[] = [];
-  out.push(`Background: ${bg.name}`);
-  if (bg.description) {
-    out.push(...bg.description.split('\n'));
-  }
-  for (const step of bg.steps ?? []) {
-    out.push(buildStepLine(step));
+  const writeFile = ({ outPath, content }: { outPath: string; content: string }) =>
+    timed(timings.stats, 'writeMs', async (): Promise<boolean | FeatureIoError> => {
+      // Leave identical files untouched, so that tools watching the output folder don't rerun
+      if (summary.incremental && (await fs.promises.readFile(outPath, 'utf8').catch(() => undefined)) === content) {
+        return false;
+      }
+      try {
+        await withIoError(outPath, 'write', async () => {
+          await fs.promises.mkdir(path.dirname(outPath), { recursive: true });
+          await fs.promises.writeFile(outPath, content, 'utf8');
+        });
+        return true;
+      } catch (error) {
+        if (params.failFast) {
+          throw error;
+        }
+        return error as FeatureIoError;
+      }
+    });
+  const changed: (boolean | FeatureIoError)[] = [];
+  for (const write of writes) {
+    changed.push(await writeFile(write));
   }
-  return out;
-}
-
-function buildScenarioText(scenario: messages.Scenario): string[] {
-  const out: string[] = [];
+  writes.forEach(({ relativePath, outPath }, i) => {
+    const outcome = changed[i];
+    if (outcome instanceof FeatureIoError) {
+      logger.error(`❌ ${outcome.message}`);
+      summary.fileErrors.push(outcome);
+      summary.skippedFiles.push({ file: outPath, reason: 'io-error' });
+    } else if (outcome) {
+      logger.info(`   -> Wrote ${relativePath}`);
+      summary.writtenFiles.push(outPath);
+    } else {
+      summary.incremental!.unchangedFiles++;
+      summary.skippedFiles.push({ file: outPath, reason: 'unchanged' });
+    }
+  });
 
-  // scenario tags
-  if (scenario.tags?.length) {
-    out.push(scenario.tags.map((t) => t.name).join(' '));
-  }
-  // "Scenario:" or "Scenario Outline:"
-  out.push(`${scenario.keyword}: ${scenario.name}`);
-  if (scenario.description) {
-    out.push(...scenario.description.split('\n'));
+  if (summary.incremental) {
+    summary.incremental.deletedFiles = previousCache ? removeStaleOutputs(tmpSpecDirectory, previousCache, written) : 0;
+    saveSplitCache(cachePath, cache);
+    const { reusedFeatureFiles, unchangedFiles, deletedFiles } = summary.incremental;
+    logger.info(
+      `\n♻️  Reused ${reusedFeatureFiles} unchanged feature file(s), kept ${unchangedFiles} unchanged output(s), deleted ${deletedFiles} stale output(s)`
+    );
   }
 
-  for (const step of scenario.steps ?? []) {
-    out.push(buildStepLine(step));
+  if (params.manifestPath) {
+    writeManifest(params.manifestPath, { version: 1, generator: 'split', entries: manifestEntries });
+    logger.info(`\n🗺️  Wrote manifest: ${params.manifestPath}`);
   }
-
-  // keep examples if scenario outline
-  if (scenario.examples?.length) {
-    scenario.examples.forEach((ex) => {
-      out.push(...buildExamplesBlock(ex));
-    });
+  if (params.picklesPath) {
+    const files = writes.map(({ outPath, content }) => ({ uri: toManifestPath(outPath), content }));
+    writePickleMessages(params.picklesPath, files);
+    logger.info(`🥒 Wrote pickles: ${params.picklesPath}`);
   }
 
-  return out;
+  summary.timings = timings.finish();
+  logger.info(`\n${formatTimings(featureFiles.length, summary.timings)}`);
+  return summary;
 }
 
-function buildStepLine(step: messages.Step): string {
-  let text = `${step.keyword}${step.text ?? ''}`;
-  if (step.docString?.content) {
-    text += `\n"""\n${step.docString.content}\n"""`;
-  }
-  // Handle Data Table (Apply escaping)
-  if (step.dataTable?.rows?.length) {
-    for (const row of step.dataTable.rows) {
-      const cells = row.cells.map((c) => escapeTableCell(c.value)).join(' | ');
-      text += `\n| ${cells} |`;
-    }
-  }
-  return text;
+/**
+ * Describes where an expanded scenario comes from. `candidate` is the scenario as
+ * returned by `expandScenarioOutlineRows`, holding at most one Examples row.
+ */
+function makeOrigin(
+  uri: string,
+  feature: messages.Feature,
+  rule: messages.Rule | undefined,
+  original: messages.Scenario,
+  candidate: messages.Scenario
+): SplitOrigin {
+  const examplesId = candidate.examples?.[0]?.id;
+  const rowId = candidate.examples?.[0]?.tableBody?.[0]?.id;
+  const examples = original.examples.find((ex) => ex.id === examplesId);
+  const row = examples?.tableBody.find((r) => r.id === rowId);
+  return makeScenarioOrigin(uri, feature, rule, original, examples, row);
 }
 
-function buildExamplesBlock(ex: messages.Examples): string[] {
-  const lines: string[] = [];
+// --------------------------------------------------------------------------
+// A) Build single-scenario .feature
+// --------------------------------------------------------------------------
 
-  if (ex.tags?.length) {
-    lines.push(ex.tags.map((t) => t.name).join(' '));
-  }
-  lines.push(`Examples: ${ex.name}`);
-  if (ex.description) {
-    lines.push(...ex.description.split('\n'));
-  }
+/**
+ * Prints a feature holding only the scenarios and Examples rows of `group`, in source order,
+ * preceded by the feature (and rule) backgrounds, or with their steps inlined into every scenario
+ * when `inline` is set, with the source comments of the printed nodes. With `pickles` (see
+ * {@link compilePickles}), every Examples row is printed as the Scenario of its pickle, located at
+ * the row as Cucumber reports it, with the comments of the outline and of the row.
+ */
+function buildGroupFeature(
+  feature: messages.Feature,
+  group: SplitCandidate[],
+  comments: CommentAnchors,
+  inline = false,
+  pickles?: Map<string, messages.Pickle>
+): PrintedLine[] {
+  const scenarioIds = new Set(group.map((candidate) => candidate.scenarioId));
+  const rowIds = new Set(group.map((candidate) => candidate.rowId));
+  const anchors: CommentAnchors = { ...comments, byLine: new Map(comments.byLine) };
+
+  // Keep the selected rows of an outline, dropping the Examples left without rows
+  const selectRows = (scenario: messages.Scenario): messages.Scenario => ({
+    ...scenario,
+    examples: scenario.examples
+      .map((examples) => ({ ...examples, tableBody: examples.tableBody.filter((row) => rowIds.has(row.id)) }))
+      .filter((examples) => examples.tableBody.length)
+  });
+  const expandRows = (scenario: messages.Scenario): messages.Scenario[] => {
+    const selected = selectRows(scenario);
+    if (!pickles || !selected.examples.length) {
+      return [selected];
+    }
+    return selected.examples.flatMap((examples) =>
+      examples.tableBody.map((row) => {
+        const rowLine = row.location.line;
+        const outlineComments = comments.byLine.get(scenario.location.line) ?? [];
+        anchors.byLine.set(rowLine, [...outlineComments, ...(comments.byLine.get(rowLine) ?? [])]);
+        if (comments.lastBlockLine === scenario.location.line) {
+          anchors.lastBlockLine = rowLine;
+        }
+        const pickle = pickles.get(pickleKey(scenario.id, row.id))!;
+        const expanded = scenarioFromPickle(scenario, examples, pickle, feature.language);
+        return { ...expanded, id: row.id, location: row.location };
+      })
+    );
+  };
 
-  if (ex.tableHeader?.cells?.length) {
-    const hdr = ex.tableHeader.cells.map((c) => escapeTableCell(c.value)).join(' | ');
-    lines.push(`| ${hdr} |`);
-  }
-  if (ex.tableBody?.length) {
-    for (const row of ex.tableBody) {
-      const rowVals = row.cells.map((c) => escapeTableCell(c.value)).join(' | ');
-      lines.push(`| ${rowVals} |`);
+  const children: messages.FeatureChild[] = [];
+  for (const child of feature.children) {
+    // forcibly apply feature-level backgrounds
+    if (child.background) {
+      children.push(child);
+    }
+    if (child.scenario && scenarioIds.has(child.scenario.id)) {
+      children.push(...expandRows(child.scenario).map((scenario) => ({ scenario })));
+    }
+
+    // If scenarios are in a Rule, keep the rule with its own backgrounds
+    const ruleScenarios = child.rule?.children.filter((c) => c.scenario && scenarioIds.has(c.scenario.id)) ?? [];
+    if (child.rule && ruleScenarios.length) {
+      const ruleChildren: messages.RuleChild[] = child.rule.children
+        .filter((ruleChild) => ruleChild.background || ruleScenarios.includes(ruleChild))
+        .flatMap((ruleChild) =>
+          ruleChild.scenario ? expandRows(ruleChild.scenario).map((scenario) => ({ scenario })) : [ruleChild]
+        );
+      children.push({ rule: { ...child.rule, children: ruleChildren } });
     }
   }
-  return lines;
-}
 
-function escapeTableCell(value: string): string {
-  return value
-    .replace(/\\/g, '\\\\') // Escape all backslashes first
-    .replace(/\|/g, '\\|') // Escape `|` as `\|`
-    .replace(/\n/g, '\\n'); // Escape newlines properly
+  const groupFeature = { ...feature, children };
+  return printFeatureLines(inline ? inlineBackgrounds(groupFeature) : groupFeature, anchors);
 }
 
-// --------------------------------------------------------------------------
-// B) Utility: naming the output file, e.g. "MyFeature_1.feature"
-// --------------------------------------------------------------------------
+/**
+ * Maps the (1-based) generated line numbers to the source lines they come from.
+ */
+function makeLineMap(lines: PrintedLine[]): Record<number, number> {
+  const lineMap: Record<number, number> = {};
+  lines.forEach((line, i) => {
+    if (line.sourceLine !== undefined) {
+      lineMap[i + 1] = line.sourceLine;
+    }
+  });
+  return lineMap;
+}
 
-function makeOutputName(filePath: string, index: number): string {
-  const base = path.basename(filePath, '.feature');
-  return `${base}_${index}.feature`;
+/**
+ * Maps the (1-based) generated line numbers printed from rows of `@data:` files to those rows,
+ * `undefined` when there are none. `rows` gives the data file of every Examples row, by id.
+ */
+function makeDataRowMap(
+  lines: PrintedLine[],
+  rows: Map<string, ReturnType<typeof dataRowSource>>
+): Record<number, DataRowOrigin> | undefined {
+  const dataRows: Record<number, DataRowOrigin> = {};
+  lines.forEach((line, i) => {
+    const dataRow = line.nodeId === undefined ? undefined : rows.get(line.nodeId);
+    if (dataRow) {
+      dataRows[i + 1] = { dataFile: toManifestPath(dataRow.dataFile), dataRowIndex: dataRow.dataRowIndex };
+    }
+  });
+  return Object.keys(dataRows).length ? dataRows : undefined;
 }
@@ -0,0 +1,65 @@
+/**
+ * What each split file holds:
+ * - row: one Scenario Outline row (or one plain scenario)
+ * - examples: one Examples block of an outline, with all its rows
+ * - scenario: one scenario, with all its Examples rows
+ * - rule: all scenarios of one Rule (scenarios outside rules are kept together)
+ * - batch: `batchSize` consecutive rows/scenarios of a feature file
+ */
+export type SplitGranularity = 'row' | 'examples' | 'scenario' | 'rule' | 'batch';
+
+/**
+ * Granularity parameters (see `SplitParams`):
+ * - granularity?: default `row`
+ * - batchSize?: number of rows/scenarios per file, required for the `batch` granularity
+ */
+export interface GranularityParams {
+  granularity?: SplitGranularity;
+  batchSize?: number;
+}
+
+/**
+ * AST node ids locating a single row or plain scenario in its feature.
+ */
+export interface GroupingKeys {
+  scenarioId: string;
+  examplesId?: string;
+  ruleId?: string;
+}
+
+const GRANULARITIES: readonly SplitGranularity[] = ['row', 'examples', 'scenario', 'rule', 'batch'];
+
+/**
+ * Checks the granularity parameters.
+ */
+export function checkGranularity(params: GranularityParams): void {
+  const granularity = params.granularity ?? 'row';
+  if (!GRANULARITIES.includes(granularity)) {
+    throw new Error(`Invalid granularity: ${granularity} (expected ${GRANULARITIES.join(', ')})`);
+  }
+  if (granularity === 'batch' && (!Number.isInteger(params.batchSize) || params.batchSize! < 1)) {
+    throw new Error(`The batch granularity requires a batchSize of at least 1, got ${params.batchSize}`);
+  }
+}
+
+/**
+ * Groups the rows/scenarios of a feature (in source order) into the files to write.
+ * Groups keep the order in which their first member appears.
+ */
+export function groupByGranularity<T extends GroupingKeys>(items: T[], params: GranularityParams): T[][] {
+  const granularity = params.granularity ?? 'row';
+  const groups = new Map<string, T[]>();
+
+  items.forEach((item, i) => {
+    const key = {
+      row: () => String(i),
+      examples: () => `${item.scenarioId}:${item.examplesId ?? ''}`,
+      scenario: () => item.scenarioId,
+      rule: () => item.ruleId ?? '',
+      batch: () => String(Math.floor(i / params.batchSize!))
+    }[granularity]();
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+
+  return [...groups.values()];
+}
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DataRowOrigin, ScenarioOrigin } from '../../helpers/manifest';
+
+/**
+ * Incremental parameters (see `SplitParams`):
+ * - incremental?: only re-split the feature files that changed since the previous run, and delete the
+ *   outputs of scenarios that no longer exist
+ * - cachePath?: where the incremental state is kept, default: `.gherkin-utils-cache.json` in the output folder
+ */
+export interface IncrementalParams {
+  incremental?: boolean;
+  cachePath?: string;
+}
+
+/**
+ * What an incremental run could skip:
+ * - reusedFeatureFiles: unchanged feature files that were not split again
+ * - unchangedFiles: outputs left as they were (same path and content)
+ * - deletedFiles: outputs of a previous run that are no longer generated
+ * - dataFiles: the `@data:` files the feature files referenced (absolute paths, missing ones included),
+ *   whose changes call for a new run as much as those of the feature files
+ */
+export interface IncrementalSummary {
+  reusedFeatureFiles: number;
+  unchangedFiles: number;
+  deletedFiles: number;
+  dataFiles: string[];
+}
+
+/**
+ * State kept between incremental runs, keyed by the source path (as in manifests).
+ * `fingerprint` covers the parameters that shape the outputs; a different one invalidates the cache.
+ */
+export interface SplitCache {
+  version: 1;
+  fingerprint: string;
+  sources: Record<string, CachedSource>;
+}
+
+/**
+ * A split feature file; `filtered` counts the scenarios (or rows) the filters left out.
+ */
+export interface CachedSource {
+  hash: string;
+  filtered?: number;
+  outputs: CachedOutput[];
+}
+
+/**
+ * A generated output; `file` (relative to the output folder) is only set when it was written.
+ */
+export interface CachedOutput {
+  fileName: string;
+  file?: string;
+  contentHash: string;
+  origins: ScenarioOrigin[];
+  lineMap: Record<number, number>;
+  dataRows?: Record<number, DataRowOrigin>;
+}
+
+const CACHE_FILE = '.gherkin-utils-cache.json';
+
+export function defaultCachePath(tmpSpecDirectory: string): string {
+  return path.join(tmpSpecDirectory, CACHE_FILE);
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Hash of the parameters that change what is generated from a given source.
+ */
+export function splitFingerprint(params: Record<string, unknown>): string {
+  return hashContent(JSON.stringify(params));
+}
+
+/**
+ * Reads the cache of a previous run; `undefined` when there is none or it can't be read.
+ */
+export function loadSplitCache(cachePath: string): SplitCache | undefined {
+  const cache = fs.readJsonSync(cachePath, { throws: false }) as SplitCache | null;
+  return cache?.version === 1 && cache.sources ? cache : undefined;
+}
+
+export function saveSplitCache(cachePath: string, cache: SplitCache): void {
+  fs.outputJsonSync(cachePath, cache);
+}
+
+/**
+ * Reads back the outputs generated from an unchanged source, when all of them are still on disk
+ * as they were written; otherwise the source has to be split again.
+ */
+export function readCachedOutputs(
+  cached: CachedSource | undefined,
+  hash: string,
+  tmpSpecDirectory: string
+): { output: CachedOutput; content: string }[] | undefined {
+  if (!cached || cached.hash !== hash) {
+    return undefined;
+  }
+
+  const outputs: { output: CachedOutput; content: string }[] = [];
+  for (const output of cached.outputs) {
+    const filePath = output.file && path.join(tmpSpecDirectory, output.file);
+    const content = filePath && fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+    if (content === undefined || hashContent(content) !== output.contentHash) {
+      return undefined;
+    }
+    outputs.push({ output, content });
+  }
+  return outputs;
+}
+
+/**
+ * Deletes the files of a previous run that were not generated again, and the folders they leave empty.
+ * Only files recorded in the cache are touched. Returns the number of deleted files.
+ */
+export function removeStaleOutputs(tmpSpecDirectory: string, previous: SplitCache, written: Set<string>): number {
+  let deleted = 0;
+  for (const source of Object.values(previous.sources)) {
+    for (const { file } of source.outputs) {
+      const filePath = file && path.join(tmpSpecDirectory, file);
+      if (!filePath || written.has(file) || !fs.existsSync(filePath)) {
+        continue;
+      }
+      fs.removeSync(filePath);
+      deleted++;
+      removeEmptyFolders(path.dirname(filePath), tmpSpecDirectory);
+    }
+  }
+  return deleted;
+}
+
+function removeEmptyFolders(dir: string, stopAt: string): void {
+  const root = path.resolve(stopAt);
+  for (let current = path.resolve(dir); current.startsWith(root + path.sep); current = path.dirname(current)) {
+    if (fs.readdirSync(current).length) {
+      return;
+    }
+    fs.rmdirSync(current);
+  }
+}
@@ -1 +1,12 @@
-export * from './performSetup';
\ No newline at end of file
+export * from './performSetup';
+export { splitFeatureSource } from './featureSplitter';
+export type { SplitParams, SplitSummary, SplitOptions, SplitOrigin, SplitFeatureOutput } from './featureSplitter';
+export type { ShardParams, ShardSummary } from './sharding';
+export type { GranularityParams, SplitGranularity } from './granularity';
+export { DEFAULT_NAME_TEMPLATE } from './naming';
+export type { NamingParams } from './naming';
+export type { IncrementalParams, IncrementalSummary } from './incremental';
+export { watchFeatures } from './watch';
+export type { WatchOptions, SplitWatcher } from './watch';
+export { parseSelectors } from './selectors';
+export type { FeatureSelector } from './selectors';
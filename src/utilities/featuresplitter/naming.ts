@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { ScenarioOrigin } from '../../helpers/manifest';
+
+/**
+ * Naming parameters (see `SplitParams`):
+ * - nameTemplate?: template of the generated file names, default: `{feature}_{index}`.
+ *   Tokens:
+ *   - `{feature}`: name of the source file, without `.feature`
+ *   - `{dir}`: folder of the source file, relative to its source folder
+ *   - `{rule}`, `{scenario}`, `{examples}`: names of the Rule, Scenario (Outline) and Examples
+ *   - `{row}`: 1-based row of the Examples (empty for plain scenarios)
+ *   - `{line}`: source line of the Examples row, or of the scenario; for a row of a `@data:` file,
+ *     the line of the tag and the 1-based row of the file, e.g. `12-3`
+ *   - `{hash}`: short hash of the generated content
+ *   - `{index}`: 1-based position of the file among the outputs of its source
+ */
+export interface NamingParams {
+  nameTemplate?: string;
+}
+
+/**
+ * Values of the name template tokens that don't come from the scenario origin.
+ */
+export interface NameContext {
+  index: number;
+  content: string;
+  directory: string;
+}
+
+export const DEFAULT_NAME_TEMPLATE = '{feature}_{index}';
+
+const TOKENS = ['feature', 'dir', 'rule', 'scenario', 'examples', 'row', 'line', 'hash', 'index'] as const;
+
+/** Keeps names well below the 255 bytes most filesystems allow. */
+const MAX_NAME_LENGTH = 150;
+
+const EXTENSION = '.feature';
+
+/**
+ * Checks that a name template only uses known tokens and produces a relative path.
+ */
+export function checkNameTemplate(template: string = DEFAULT_NAME_TEMPLATE): void {
+  for (const [, token] of template.matchAll(/\{([^}]*)\}/g)) {
+    if (!(TOKENS as readonly string[]).includes(token)) {
+      throw new Error(`Unknown token {${token}} in name template "${template}" (known: ${TOKENS.join(', ')})`);
+    }
+  }
+  if (path.isAbsolute(template) || template.split(/[\\/]/).includes('..')) {
+    throw new Error(`The name template "${template}" must be a path relative to the output folder`);
+  }
+}
+
+/**
+ * Builds the file name of a generated feature from a template.
+ *
+ * Names are reduced to letters, digits, `.`, `-` and `_` so they are safe on every filesystem
+ * (token values lose their dots too); separators left around empty tokens are dropped. `/` in the template itself
+ * creates sub-folders. Names only depend on the source (and the content for `{hash}`), so they
+ * stay the same across runs as long as `{index}` is not used.
+ */
+export function formatOutputName(
+  template: string = DEFAULT_NAME_TEMPLATE,
+  origin: ScenarioOrigin,
+  context: NameContext
+): string {
+  const values: Record<(typeof TOKENS)[number], string> = {
+    feature: path.basename(origin.uri, EXTENSION),
+    dir: context.directory
+      .split(/[\\/]/)
+      .filter((part) => part && part !== '.')
+      .join('_'),
+    rule: origin.ruleName ?? '',
+    scenario: origin.scenarioName,
+    examples: origin.examplesName ?? '',
+    row: origin.rowIndex === undefined ? '' : String(origin.rowIndex + 1),
+    line:
+      origin.dataRowIndex === undefined
+        ? String(origin.rowLine ?? origin.scenarioLine)
+        : `${origin.rowLine}-${origin.dataRowIndex + 1}`,
+    hash: createHash('sha1').update(context.content).digest('hex').slice(0, 8),
+    index: String(context.index)
+  };
+
+  const withoutExtension = template.endsWith(EXTENSION) ? template.slice(0, -EXTENSION.length) : template;
+  const segments = withoutExtension
+    .split(/[\\/]/)
+    .map((segment) =>
+      segment
+        .replace(/\{([a-z]+)\}/g, (_, token: (typeof TOKENS)[number]) => slugify(values[token]))
+        .replace(/[^\p{L}\p{N}._-]+/gu, '_')
+        .replace(/([-_.])[-_.]+/g, '$1')
+        .replace(/^[-_.]+|[-_.]+$/g, '')
+        .slice(0, MAX_NAME_LENGTH)
+    )
+    .filter((segment) => segment);
+
+  const fileName = segments.pop() || 'scenario';
+  return path.join(...segments, fileName + EXTENSION);
+}
+
+/**
+ * Suffixes names that were already taken (ignoring case, for case-insensitive filesystems)
+ * with `_2`, `_3`, ... Earlier names are kept, so only the later duplicates change.
+ */
+export function dedupeNames(names: string[]): string[] {
+  const taken = new Set<string>();
+  return names.map((name) => {
+    const extension = path.extname(name);
+    const base = name.slice(0, name.length - extension.length);
+    let unique = name;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      unique = `${base}_${n}${extension}`;
+    }
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+/**
+ * Keeps letters and digits of any script, `-` and `_`; everything else becomes `_`.
+ */
+function slugify(value: string): string {
+  return value
+    .trim()
+    .replace(/[^\p{L}\p{N}_-]+/gu, '_')
+    .replace(/^_+|_+$/g, '');
+}
@@ -1,23 +1,19 @@
-import { splitScenarioOutlinesByRows, SplitParams } from './featureSplitter';
+import { splitScenarioOutlinesByRows, SplitParams, SplitSummary } from './featureSplitter';
 import * as fsextra from 'fs-extra';
 
-export async function performSetup(options: SplitParams) {
-  try {
-    if (options.cleanTmpSpecDirectory) {
-      fsextra.removeSync(options.tmpSpecDirectory);
-    }
-    fsextra.ensureDirSync(options.tmpSpecDirectory);
-    await splitScenarioOutlinesByRows({
-      sourceSpecDirectory: options.sourceSpecDirectory,
-      tmpSpecDirectory: options.tmpSpecDirectory,
-      tagExpression: options.tagExpression,
-      singleFile: options.singleFile,
-      language: options.language,
-      cleanTmpSpecDirectory: options.cleanTmpSpecDirectory
-    });
-  } catch (error) {
-    console.log('Error: ', error);
+/**
+ * Prepares the output folder and splits the feature files into it.
+ * Resolves with the split summary: the files that fail are reported in its `fileErrors`, unless
+ * `failFast` is set, in which case the run rejects with the first of them.
+ *
+ * @throws {Error} for invalid parameters, or when the output folder can't be prepared.
+ */
+export async function performSetup(options: SplitParams): Promise<SplitSummary> {
+  if (options.cleanTmpSpecDirectory) {
+    fsextra.removeSync(options.tmpSpecDirectory);
   }
+  fsextra.ensureDirSync(options.tmpSpecDirectory);
+  return splitScenarioOutlinesByRows(options);
 }
 //'./tests/features'
 //'./tmp'
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A feature file and the lines selected in it; no lines selects the whole file.
+ */
+export interface FeatureSelector {
+  path: string;
+  lines: number[];
+}
+
+/**
+ * Parses `path[:line]...` selectors, as accepted by Cucumber (e.g. `features/login.feature:12:40`).
+ * An `@<file>` entry reads the selectors of a rerun file (one per line).
+ * Selectors of the same file are merged; a selector without lines selects the whole file.
+ */
+export function parseSelectors(selectors: readonly string[]): FeatureSelector[] {
+  const byPath = new Map<string, FeatureSelector>();
+
+  const add = (selector: string) => {
+    const [, filePath, lineList] = /^(.+?)((?::\d+)*)$/.exec(selector)!;
+    const lines = lineList.split(':').filter(Boolean).map(Number);
+    const key = path.resolve(filePath);
+    const existing = byPath.get(key);
+    if (!existing) {
+      byPath.set(key, { path: filePath, lines });
+    } else if (existing.lines.length) {
+      existing.lines = lines.length ? [...new Set([...existing.lines, ...lines])].sort((a, b) => a - b) : [];
+    }
+  };
+
+  for (const selector of selectors) {
+    if (selector.startsWith('@')) {
+      const rerunFile = selector.slice(1);
+      if (!fs.existsSync(rerunFile)) {
+        throw new Error(`Rerun file not found: ${rerunFile}`);
+      }
+      fs.readFileSync(rerunFile, 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .forEach(add);
+    } else {
+      add(selector);
+    }
+  }
+  return [...byPath.values()];
+}
+
+/**
+ * Finds the selector of a file, comparing absolute paths.
+ */
+export function findSelector(selectors: readonly FeatureSelector[], filePath: string): FeatureSelector | undefined {
+  const absolute = path.resolve(filePath);
+  return selectors.find((selector) => path.resolve(selector.path) === absolute);
+}
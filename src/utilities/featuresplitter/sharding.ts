@@ -0,0 +1,122 @@
+import { ScenarioOrigin } from '../../helpers/manifest';
+import { readScenarioDurations } from '../../helpers/cucumberReport';
+
+/**
+ * Sharding parameters (see `SplitParams`):
+ * - shardCount: number of shards
+ * - shardIndex?: 1-based shard to write; without it every shard is written to its own `shard-<n>` folder
+ * - durationsReport?: Cucumber JSON / messages NDJSON report(s) of a previous run, to balance shards by duration
+ */
+export interface ShardParams {
+  shardCount?: number;
+  shardIndex?: number;
+  durationsReport?: string | string[];
+}
+
+/**
+ * Size of one shard after balancing. `duration` (ms) is only estimated when durations were given.
+ */
+export interface ShardSummary {
+  index: number;
+  scenarios: number;
+  duration?: number;
+}
+
+/**
+ * Folder (below the output directory) holding the files of a shard when all shards are written.
+ */
+export function shardFolderName(index: number): string {
+  return `shard-${index}`;
+}
+
+/**
+ * Checks the sharding parameters; returns `false` when no sharding was asked for.
+ */
+export function isSharded(params: ShardParams): boolean {
+  if (params.shardCount === undefined) {
+    if (params.shardIndex !== undefined) {
+      throw new Error('shardIndex requires shardCount');
+    }
+    return false;
+  }
+  if (!Number.isInteger(params.shardCount) || params.shardCount < 1) {
+    throw new Error(`Invalid shardCount: ${params.shardCount}`);
+  }
+  if (
+    params.shardIndex !== undefined &&
+    (!Number.isInteger(params.shardIndex) || params.shardIndex < 1 || params.shardIndex > params.shardCount)
+  ) {
+    throw new Error(`Invalid shardIndex: ${params.shardIndex} (expected 1 to ${params.shardCount})`);
+  }
+  return true;
+}
+
+/**
+ * Assigns every output file, given the scenarios it holds, to a 1-based shard.
+ *
+ * Without durations every scenario weighs the same, which balances shards by scenario count.
+ * With durations, scenarios are weighted by their last known duration (unknown ones get the
+ * average) and files are assigned heaviest first to the currently lightest shard. Ties are broken
+ * by source order and shard number, so the assignment is stable across runs and CI workers.
+ */
+export function assignShards(
+  files: ScenarioOrigin[][],
+  shardCount: number,
+  durations?: Map<string, number>
+): { shards: number[]; summaries: ShardSummary[] } {
+  const knownValues = files
+    .flat()
+    .map((origin) => durations && findDuration(durations, origin))
+    .filter((value): value is number => value !== undefined);
+  const average = knownValues.length ? knownValues.reduce((sum, value) => sum + value, 0) / knownValues.length : 1;
+  const weigh = (origin: ScenarioOrigin) => (durations ? (findDuration(durations, origin) ?? average) : 1);
+  const weights = files.map((origins) => origins.reduce((sum, origin) => sum + weigh(origin), 0));
+
+  const order = files.map((_, i) => i).sort((a, b) => weights[b] - weights[a] || a - b);
+  const totals: number[] = Array(shardCount).fill(0);
+  const counts: number[] = Array(shardCount).fill(0);
+  const shards: number[] = Array(files.length);
+
+  for (const i of order) {
+    let target = 0;
+    for (let shard = 1; shard < shardCount; shard++) {
+      if (totals[shard] < totals[target] || (totals[shard] === totals[target] && counts[shard] < counts[target])) {
+        target = shard;
+      }
+    }
+    totals[target] += weights[i];
+    counts[target] += files[i].length;
+    shards[i] = target + 1;
+  }
+
+  const summaries = totals.map((total, i) => ({
+    index: i + 1,
+    scenarios: counts[i],
+    duration: durations ? Math.round(total) : undefined
+  }));
+  return { shards, summaries };
+}
+
+/**
+ * Reads the scenario durations of one or more previous reports (later reports win).
+ */
+export function loadDurations(reports: string | string[]): Map<string, number> {
+  const durations = new Map<string, number>();
+  for (const report of Array.isArray(reports) ? reports : [reports]) {
+    readScenarioDurations(report).forEach((duration, key) => durations.set(key, duration));
+  }
+  return durations;
+}
+
+/**
+ * Duration of a scenario, found by the location a report uses for it: the Examples row for outline
+ * rows, else the scenario line. A row of a `@data:` file is found by its data file and index, or else
+ * by the line of its tag, shared with the other rows of the file (see `readScenarioDurations`).
+ */
+function findDuration(durations: Map<string, number>, origin: ScenarioOrigin): number | undefined {
+  const byLine = durations.get(`${origin.uri}:${origin.rowLine ?? origin.scenarioLine}`);
+  if (origin.dataFile === undefined) {
+    return byLine;
+  }
+  return durations.get(`${origin.uri}:${origin.dataFile}:${origin.dataRowIndex}`) ?? byLine;
+}
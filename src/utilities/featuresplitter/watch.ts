@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SplitParams, SplitSummary } from './featureSplitter';
+import { performSetup } from './performSetup';
+import { consoleLogger } from '../../helpers/logger';
+
+/**
+ * Options of {@link watchFeatures}:
+ * - debounceMs?: quiet time after the last change before splitting again, default: 200
+ * - onSplit?: called after every successful run, the first one included
+ *
+ * Progress and the errors of failed runs go to the `logger` of the split parameters.
+ */
+export interface WatchOptions {
+  debounceMs?: number;
+  onSplit?: (summary: SplitSummary) => void;
+}
+
+/**
+ * A running watcher; `close` stops it (a run in progress still completes).
+ */
+export interface SplitWatcher {
+  close(): void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * Keeps the output folder in sync with the source folders: splits everything once, then splits
+ * incrementally whenever a .feature file is added, changed or removed, or one of the `@data:` files
+ * the last run read (inside the source folders or not). Changes close to each other are handled in
+ * a single run, and runs never overlap.
+ */
+export function watchFeatures(params: SplitParams, options: WatchOptions = {}): SplitWatcher {
+  const roots = params.singleFile
+    ? [path.dirname(params.singleFile)]
+    : Array.isArray(params.sourceSpecDirectory)
+      ? params.sourceSpecDirectory
+      : [params.sourceSpecDirectory];
+  const outputDir = path.resolve(params.tmpSpecDirectory);
+  const logger = params.logger ?? consoleLogger;
+
+  let timer: NodeJS.Timeout | undefined;
+  let dataFiles = new Set<string>();
+  const dataWatchers = new Map<string, fs.FSWatcher>(); // folder of data files outside the roots -> its watcher
+  let running = false;
+  let pending = false;
+  let closed = false;
+
+  const run = async (firstRun: boolean) => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+    try {
+      const summary = await performSetup({
+        ...params,
+        incremental: true,
+        cleanTmpSpecDirectory: firstRun && params.cleanTmpSpecDirectory
+      });
+      dataFiles = new Set(summary.incremental?.dataFiles);
+      if (!closed) watchDataFolders();
+      options.onSplit?.(summary);
+    } catch (error) {
+      logger.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    }
+    running = false;
+    if (pending && !closed) {
+      pending = false;
+      await run(false);
+    }
+  };
+
+  const schedule = (changed: string | null) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      logger.info(`\n👀 Change detected${changed ? ` in ${path.relative(process.cwd(), changed)}` : ''}`);
+      void run(false);
+    }, options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  };
+
+  const watchers = roots.map((root) =>
+    fs.watch(root, { recursive: true }, (_event, fileName) => {
+      const changed = fileName && path.resolve(root, fileName.toString());
+      if (
+        changed &&
+        !dataFiles.has(changed) &&
+        (!changed.endsWith('.feature') || changed.startsWith(outputDir + path.sep))
+      ) {
+        return; // not a feature or data file, or one of the outputs
+      }
+      schedule(changed);
+    })
+  );
+
+  // The folders of the data files are watched rather than the files, which editors often replace
+  const watchDataFolders = () => {
+    const resolvedRoots = roots.map((root) => path.resolve(root) + path.sep);
+    const folders = new Set(
+      [...dataFiles]
+        .filter((dataFile) => !resolvedRoots.some((root) => dataFile.startsWith(root)))
+        .map((dataFile) => path.dirname(dataFile))
+        .filter((folder) => fs.existsSync(folder))
+    );
+    dataWatchers.forEach((watcher, folder) => {
+      if (!folders.has(folder)) {
+        watcher.close();
+        dataWatchers.delete(folder);
+      }
+    });
+    for (const folder of folders) {
+      if (!dataWatchers.has(folder)) {
+        const watcher = fs.watch(folder, (_event, fileName) => {
+          const changed = fileName && path.resolve(folder, fileName.toString());
+          if (!changed || dataFiles.has(changed)) {
+            schedule(changed);
+          }
+        });
+        dataWatchers.set(folder, watcher);
+      }
+    }
+  };
+
+  void run(true);
+  logger.info(`👀 Watching ${roots.join(', ')} for changes`);
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      watchers.forEach((watcher) => watcher.close());
+      dataWatchers.forEach((watcher) => watcher.close());
+    }
+  };
+}
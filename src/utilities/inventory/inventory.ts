@@ -0,0 +1,383 @@
+import * as messages from '@cucumber/messages';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { glob } from 'glob';
+import {
+  collectScenarioEntries,
+  expandScenarioOutlineRows,
+  gatherAllTagNames,
+  replacePlaceholders
+} from '../../helpers/gherkinUtils';
+import { parseFeatureSource } from '../../helpers/parseUtils';
+import { FeatureFileError, FeatureIoError, GherkinParseError } from '../../helpers/errors';
+import { mergeExternalExamples, readReferencedDataFiles, ExternalDataOptions } from '../../helpers/externalExamples';
+import { consoleLogger } from '../../helpers/logger';
+import { emptyRunResult, withIoError, RunOptions, RunResult } from '../../helpers/runResult';
+import { toManifestPath } from '../../helpers/manifest';
+
+export const INVENTORY_FORMATS = ['json', 'csv', 'markdown'] as const;
+
+export type InventoryFormat = (typeof INVENTORY_FORMATS)[number];
+
+/**
+ * A step of a test case; `keyword` keeps its trailing space, as in the Gherkin AST.
+ */
+export interface InventoryStep {
+  keyword: string;
+  text: string;
+  dataTable?: string[][];
+  docString?: string;
+}
+
+/**
+ * One concrete test case, as Cucumber runs it: a Scenario, or one Examples row of a Scenario Outline.
+ * - name: the scenario name, with the `<placeholders>` of an outline row replaced by its values
+ * - outline?: for an outline row, the name of the outline (placeholders kept)
+ * - tags: the Feature, Rule, Scenario and Examples tags, in that order
+ * - backgroundSteps: the Feature, then Rule, Background steps run before `steps`
+ * - examples?: for an outline row, the name of its Examples block and the row values by column
+ * - location: the source file, the line of the scenario, or of the row for an outline row
+ *   (`scenarioLine` is always the line of the scenario)
+ */
+export interface TestCase {
+  feature: string;
+  rule?: string;
+  name: string;
+  outline?: string;
+  tags: string[];
+  backgroundSteps: InventoryStep[];
+  steps: InventoryStep[];
+  examples?: { name: string; values: Record<string, string> };
+  location: { uri: string; line: number; scenarioLine: number };
+}
+
+/**
+ * The test cases of one feature file, in source order.
+ */
+export interface FeatureInventory {
+  uri: string;
+  feature: string;
+  description: string;
+  testCases: TestCase[];
+}
+
+/**
+ * Options of the in-memory inventory:
+ * - uri?: path of the source, reported in the test case locations and errors
+ * - language?: dialect of a source without a `# language:` header, default: en
+ * - readDataFile?: reads the `@data:` files, see {@link ExternalDataOptions}
+ */
+export interface InventorySourceOptions extends ExternalDataOptions {
+  uri?: string;
+  language?: string;
+}
+
+/**
+ * Options of {@link exportInventory}:
+ * - format?: `json`, `csv` or `markdown`, default: from the extension of `output` (`.json`, `.csv`, `.md`),
+ *   else `markdown`
+ * - output?: file the document is written to; without it, the document is only returned
+ * - language?: dialect of the files without a `# language:` header, default: en
+ * - logger?/failFast?: see {@link RunOptions}
+ */
+export interface InventoryOptions extends RunOptions {
+  format?: InventoryFormat;
+  output?: string;
+  language?: string;
+}
+
+/**
+ * Outcome of {@link exportInventory}: the features found, the formatted `content`, and the run result
+ * (`scenariosMatched` counts the test cases).
+ */
+export interface InventorySummary extends RunResult {
+  featureFiles: number;
+  features: FeatureInventory[];
+  content: string;
+}
+
+/** Used when the caller does not say where the source comes from. */
+const DEFAULT_SOURCE_URI = 'inline.feature';
+
+/**
+ * Lists the test cases of a Gherkin source, without touching the filesystem (unless
+ * `options.readDataFile` does): every Scenario, and
+ * every Examples row of the Scenario Outlines (including the rows of `@data:` files), with their
+ * resolved name, inherited tags, background and scenario steps, example values and location.
+ * Returns `undefined` for a document without a feature.
+ *
+ * @throws {GherkinParseError} when the source is not valid Gherkin.
+ */
+export function buildFeatureInventory(
+  source: string,
+  options: InventorySourceOptions = {}
+): FeatureInventory | undefined {
+  const uri = options.uri ?? DEFAULT_SOURCE_URI;
+  const { gherkinDocument } = parseFeatureSource(source, uri, false, options.language);
+  if (!gherkinDocument.feature) {
+    return undefined;
+  }
+
+  const feature = mergeExternalExamples(gherkinDocument.feature, uri, { readDataFile: options.readDataFile });
+  const testCases = collectScenarioEntries(feature).flatMap(
+    ({ scenario, rule, featureBackgrounds, ruleBackgrounds }) => {
+      const backgroundSteps = [...featureBackgrounds, ...ruleBackgrounds].flatMap((background) =>
+        background.steps.map((step) => toInventoryStep(step, {}))
+      );
+      const testCase = (row: messages.Scenario): TestCase => {
+        const examples = row.examples[0];
+        const tableRow = examples?.tableBody[0];
+        const values: Record<string, string> = {};
+        examples?.tableHeader?.cells.forEach((cell, i) => {
+          values[cell.value] = tableRow?.cells[i]?.value ?? '';
+        });
+
+        return {
+          feature: feature.name,
+          ...(rule && { rule: rule.name }),
+          name: replacePlaceholders(scenario.name, values),
+          ...(tableRow && { outline: scenario.name }),
+          tags: [...new Set(gatherAllTagNames(feature, rule, row))],
+          backgroundSteps,
+          steps: scenario.steps.map((step) => toInventoryStep(step, values)),
+          ...(tableRow && { examples: { name: examples.name, values } }),
+          location: { uri, line: (tableRow ?? scenario).location.line, scenarioLine: scenario.location.line }
+        };
+      };
+      return expandScenarioOutlineRows(scenario).map(testCase);
+    }
+  );
+
+  return { uri, feature: feature.name, description: feature.description.trim(), testCases };
+}
+
+/**
+ * Builds the inventory of the feature files matching a path or glob pattern, formats it and
+ * (with `options.output`) writes it. Files that can't be read or parsed are reported in
+ * `fileErrors` and left out, unless `options.failFast` is set.
+ *
+ * @throws {Error} for an unknown format.
+ */
+export async function exportInventory(
+  filePathOrPattern: string | string[],
+  options: InventoryOptions = {}
+): Promise<InventorySummary> {
+  const format = resolveFormat(options);
+  const logger = options.logger ?? consoleLogger;
+  const files = glob.sync(filePathOrPattern).sort();
+  const summary: InventorySummary = { featureFiles: files.length, features: [], content: '', ...emptyRunResult() };
+
+  for (const filePath of files) {
+    try {
+      const source = await withIoError(filePath, 'read', () => fs.promises.readFile(filePath, 'utf8'));
+      const uri = toManifestPath(filePath);
+      const dataFiles = await readReferencedDataFiles(source, uri);
+      const inventory = buildFeatureInventory(source, {
+        uri,
+        language: options.language,
+        readDataFile: (dataFile) => dataFiles.get(dataFile)
+      });
+      if (!inventory?.testCases.length) {
+        summary.skippedFiles.push({ file: filePath, reason: 'no-match' });
+      }
+      if (inventory) {
+        summary.features.push(inventory);
+        summary.scenariosMatched += inventory.testCases.length;
+      }
+    } catch (error) {
+      if (options.failFast || !(error instanceof GherkinParseError || error instanceof FeatureIoError)) {
+        throw error;
+      }
+      reportFileError(summary, filePath, error);
+      logger.error(`❌ ${error instanceof GherkinParseError ? `Parse error in ${filePath}: ` : ''}${error.message}`);
+    }
+  }
+
+  summary.content = formatInventory(summary.features, format);
+  if (options.output) {
+    const output = options.output;
+    await withIoError(output, 'write', () => fs.outputFile(output, summary.content, 'utf8'));
+    summary.writtenFiles.push(output);
+    logger.info(
+      `📋 Wrote ${summary.scenariosMatched} test case(s) of ${summary.features.length} feature(s): ${output}`
+    );
+  }
+  return summary;
+}
+
+/**
+ * Formats an inventory as a JSON document, a CSV file (one row per test case) or Markdown living
+ * documentation (a table of contents, then one section per feature and test case).
+ */
+export function formatInventory(features: readonly FeatureInventory[], format: InventoryFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify({ version: 1, features }, null, 2)}\n`;
+    case 'csv':
+      return formatCsv(features);
+    case 'markdown':
+      return formatMarkdown(features);
+    default:
+      throw new Error(`Unknown inventory format "${String(format)}" (expected ${INVENTORY_FORMATS.join(', ')})`);
+  }
+}
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+function resolveFormat(options: InventoryOptions): InventoryFormat {
+  if (options.format) {
+    if (!INVENTORY_FORMATS.includes(options.format)) {
+      throw new Error(`Unknown inventory format "${options.format}" (expected ${INVENTORY_FORMATS.join(', ')})`);
+    }
+    return options.format;
+  }
+  const extension = options.output && path.extname(options.output).toLowerCase();
+  return extension === '.json' ? 'json' : extension === '.csv' ? 'csv' : 'markdown';
+}
+
+function reportFileError(summary: InventorySummary, filePath: string, error: FeatureFileError): void {
+  summary.fileErrors.push(error);
+  summary.skippedFiles.push({
+    file: filePath,
+    reason: error instanceof GherkinParseError ? 'parse-error' : 'io-error'
+  });
+}
+
+function toInventoryStep(step: messages.Step, values: Record<string, string>): InventoryStep {
+  return {
+    keyword: step.keyword,
+    text: replacePlaceholders(step.text, values),
+    ...(step.dataTable && {
+      dataTable: step.dataTable.rows.map((row) => row.cells.map((cell) => replacePlaceholders(cell.value, values)))
+    }),
+    ...(step.docString && { docString: replacePlaceholders(step.docString.content, values) })
+  };
+}
+
+/**
+ * The Gherkin lines of a step: the step itself, then its data table or docstring, indented.
+ */
+function stepLines(step: InventoryStep): string[] {
+  const lines = [`${step.keyword}${step.text}`];
+  step.dataTable?.forEach((row) => lines.push(`  | ${row.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`));
+  if (step.docString !== undefined) {
+    lines.push('  """', ...step.docString.split('\n').map((line) => `  ${line}`), '  """');
+  }
+  return lines;
+}
+
+function formatValues(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([column, value]) => `${column}=${value}`)
+    .join('; ');
+}
+
+const CSV_COLUMNS = ['Feature', 'Rule', 'Test case', 'Outline', 'Examples', 'Values', 'Tags', 'Background', 'Steps'];
+
+function formatCsv(features: readonly FeatureInventory[]): string {
+  const rows = features.flatMap((feature) =>
+    feature.testCases.map((testCase) => [
+      testCase.feature,
+      testCase.rule ?? '',
+      testCase.name,
+      testCase.outline ?? '',
+      testCase.examples?.name ?? '',
+      testCase.examples ? formatValues(testCase.examples.values) : '',
+      testCase.tags.join(' '),
+      testCase.backgroundSteps.flatMap(stepLines).join('\n'),
+      testCase.steps.flatMap(stepLines).join('\n'),
+      testCase.location.uri,
+      String(testCase.location.line)
+    ])
+  );
+  return [[...CSV_COLUMNS, 'File', 'Line'], ...rows].map((row) => row.map(csvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Quotes a CSV value when it holds a comma, a quote or a line break (RFC 4180).
+ */
+function csvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatMarkdown(features: readonly FeatureInventory[]): string {
+  const slug = createSlugger();
+  const testCaseCount = features.reduce((count, feature) => count + feature.testCases.length, 0);
+  const featureTitle = (feature: FeatureInventory) => feature.feature || path.basename(feature.uri);
+
+  const lines = ['# Test case inventory', '', `${testCaseCount} test case(s) in ${features.length} feature(s).`, ''];
+  slug('Test case inventory');
+  lines.push('## Contents', '');
+  slug('Contents');
+
+  // The anchors are computed in document order, as GitHub numbers duplicate headings
+  const sections: string[] = [];
+  for (const feature of features) {
+    const anchor = slug(featureTitle(feature));
+    lines.push(`- [${escapeMarkdown(featureTitle(feature))}](#${anchor}) (${feature.testCases.length})`);
+    sections.push('', `## ${escapeMarkdown(featureTitle(feature))}`, '', `\`${feature.uri}\``, '');
+    if (feature.description) {
+      sections.push(feature.description, '');
+    }
+
+    for (const testCase of feature.testCases) {
+      slug(testCase.name);
+      sections.push(`### ${escapeMarkdown(testCase.name)}`, '');
+      if (testCase.rule) {
+        sections.push(`- **Rule:** ${escapeMarkdown(testCase.rule)}`);
+      }
+      if (testCase.outline !== undefined && testCase.examples) {
+        const examples = testCase.examples.name ? ` (Examples: ${escapeMarkdown(testCase.examples.name)})` : '';
+        sections.push(`- **Outline:** ${escapeMarkdown(testCase.outline)}${examples}`);
+        const values = Object.entries(testCase.examples.values).map(([column, value]) => `${column} = ${value}`);
+        sections.push(`- **Values:** ${values.map(inlineCode).join(', ')}`);
+      }
+      if (testCase.tags.length) {
+        sections.push(`- **Tags:** ${testCase.tags.map(inlineCode).join(' ')}`);
+      }
+      sections.push(`- **Source:** ${inlineCode(`${testCase.location.uri}:${testCase.location.line}`)}`, '');
+
+      const background = testCase.backgroundSteps.flatMap(stepLines);
+      const code = [
+        ...(background.length ? ['# Background', ...background, ''] : []),
+        ...testCase.steps.flatMap(stepLines)
+      ];
+      const fence = '`'.repeat(Math.max(3, longestRun(code.join('\n'), '`') + 1));
+      sections.push(`${fence}gherkin`, ...code, fence, '');
+    }
+  }
+
+  return [...lines, ...sections].join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Returns GitHub-style heading anchors, numbering the duplicates (`name`, `name-1`, ...).
+ */
+function createSlugger(): (heading: string) => string {
+  const seen = new Map<string, number>();
+  return (heading) => {
+    const base = heading
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .trim()
+      .replace(/\s/g, '-');
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count ? `${base}-${count}` : base;
+  };
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>|#]/g, '\\$&');
+}
+
+function inlineCode(text: string): string {
+  const ticks = '`'.repeat(longestRun(text, '`') + 1);
+  return text.includes('`') ? `${ticks} ${text} ${ticks}` : `${ticks}${text}${ticks}`;
+}
+
+function longestRun(text: string, char: string): number {
+  return Math.max(0, ...[...text.matchAll(new RegExp(`\\${char}+`, 'g'))].map((match) => match[0].length));
+}
@@ -0,0 +1,306 @@
+import * as messages from '@cucumber/messages';
+import * as fs from 'fs-extra';
+import { collectScenarioEntries, indexAstNodes, AstNodeIndex } from '../../helpers/gherkinUtils';
+import { parseFeatureSource } from '../../helpers/parseUtils';
+import {
+  dataRowSource,
+  mergeExternalExamples,
+  readDataFileSync,
+  ExternalDataOptions
+} from '../../helpers/externalExamples';
+import { compilePickles } from '../../helpers/pickles';
+import { consoleLogger } from '../../helpers/logger';
+import { ManifestEntry, SourceManifest, readManifest, toManifestPath } from '../../helpers/manifest';
+import { RunOptions } from '../../helpers/runResult';
+import {
+  CucumberJsonElement,
+  CucumberJsonFeature,
+  CucumberJsonTag,
+  formatMessages,
+  isMessagesReport,
+  parseMessages,
+  readCucumberJson
+} from '../../helpers/cucumberReport';
+
+/**
+ * Options of the remappers:
+ * - readSource?: reads an original feature file, default: from disk, relative to the working directory
+ * - readDataFile?: reads the `@data:` files of the original feature files (see {@link ExternalDataOptions}),
+ *   default: from disk
+ */
+export interface RemapOptions extends ExternalDataOptions {
+  readSource?: (uri: string) => string;
+}
+
+/**
+ * Parameters of {@link remapResultFile}:
+ * - manifestPath: manifest written by the splitter (`manifestPath` option)
+ * - input: Cucumber JSON report or messages NDJSON produced from the split files
+ * - output?: where to write the remapped report, default: overwrite `input`
+ * - logger?: where the progress goes, see {@link RunOptions}; the report being a single file,
+ *   `failFast` makes no difference
+ */
+export interface RemapFileParams extends RemapOptions, RunOptions {
+  manifestPath: string;
+  input: string;
+  output?: string;
+}
+
+/**
+ * An original feature file, parsed once per remap, with the rows of its `@data:` files merged as
+ * the splitter merges them. Those rows all sit on the line of their tag, so they are found by the
+ * data row of the manifest (`dataRows`) instead of by line.
+ */
+interface OriginalSource {
+  uri: string;
+  data: string;
+  gherkinDocument: messages.GherkinDocument;
+  nodes: AstNodeIndex;
+  pickleNames: Map<string, string>; // last AST node id of a pickle -> its name
+  dataRowIds: Map<string, string>; // `${dataFile}:${dataRowIndex}` -> row id
+}
+
+/**
+ * Rewrites a Cucumber JSON report produced from split files so that it points to the original
+ * feature files: URIs, lines (feature, scenario, steps, docstrings, tags) and scenario names.
+ * Features generated from the same source are merged back into one feature whose
+ * scenarios (and Scenario Outline rows) are ordered as in the source.
+ */
+export function remapCucumberJson(
+  report: CucumberJsonFeature[],
+  manifest: SourceManifest,
+  options: RemapOptions = {}
+): CucumberJsonFeature[] {
+  const entries = indexManifest(manifest);
+  const originals = new Map<string, OriginalSource>();
+  const merged = new Map<string, CucumberJsonFeature>();
+  const result: CucumberJsonFeature[] = [];
+
+  for (const feature of report) {
+    const entry = entries.get(toManifestPath(feature.uri));
+    if (!entry) {
+      result.push(feature);
+      continue;
+    }
+
+    const original = loadOriginal(entry.origin.uri, originals, options);
+    const mapLine = (line: number) => entry.lineMap?.[line] ?? line;
+    const elements = feature.elements.map((element) =>
+      remapElement(element, mapLine, original, dataRowId(entry, element.line, original))
+    );
+
+    const existing = merged.get(entry.origin.uri);
+    if (existing) {
+      existing.elements.push(...elements);
+      continue;
+    }
+
+    const remapped: CucumberJsonFeature = {
+      ...feature,
+      uri: entry.origin.uri,
+      line: mapLine(feature.line),
+      tags: remapTags(feature.tags, mapLine),
+      elements
+    };
+    merged.set(entry.origin.uri, remapped);
+    result.push(remapped);
+  }
+
+  // Keep scenarios in source order, so the rows of an outline end up next to each other
+  merged.forEach((feature) => feature.elements.sort((a, b) => a.line - b.line));
+  return result;
+}
+
+/**
+ * Rewrites the messages (NDJSON envelopes) of a run on split files so that they refer to the
+ * original feature files. The `source` and `gherkinDocument` of every split file are replaced by
+ * those of its original file (emitted once), and pickles are re-pointed to the original AST nodes,
+ * so the per-row results of a Scenario Outline all hang under the same outline again.
+ */
+export function remapMessages(
+  envelopes: readonly messages.Envelope[],
+  manifest: SourceManifest,
+  options: RemapOptions = {}
+): messages.Envelope[] {
+  const entries = indexManifest(manifest);
+  const originals = new Map<string, OriginalSource>();
+  const emitted = new Set<string>();
+
+  // Lines of the nodes of every split document, by node id
+  const splitNodes = new Map<string, AstNodeIndex>();
+  for (const envelope of envelopes) {
+    const document = envelope.gherkinDocument;
+    if (document?.feature && entries.has(toManifestPath(document.uri ?? ''))) {
+      splitNodes.set(toManifestPath(document.uri!), indexAstNodes(document.feature));
+    }
+  }
+
+  const result: messages.Envelope[] = [];
+  for (const envelope of envelopes) {
+    const uri = envelope.source?.uri ?? envelope.gherkinDocument?.uri ?? envelope.pickle?.uri;
+    const entry = uri !== undefined ? entries.get(toManifestPath(uri)) : undefined;
+    if (!entry) {
+      result.push(envelope);
+      continue;
+    }
+
+    const original = loadOriginal(entry.origin.uri, originals, options);
+    if (envelope.source || envelope.gherkinDocument) {
+      // Emit the original source and document in place of the first split file's ones
+      if (!emitted.has(original.uri)) {
+        emitted.add(original.uri);
+        const mediaType = messages.SourceMediaType.TEXT_X_CUCUMBER_GHERKIN_PLAIN;
+        result.push({ source: { uri: original.uri, data: original.data, mediaType } });
+        result.push({ gherkinDocument: original.gherkinDocument });
+      }
+      continue;
+    }
+
+    const split = splitNodes.get(toManifestPath(uri!));
+    result.push({ pickle: remapPickle(envelope.pickle!, entry, split, original) });
+  }
+
+  return result;
+}
+
+/**
+ * Remaps a report file in place (or into `output`). The format (Cucumber JSON or messages NDJSON)
+ * is detected from the file.
+ */
+export function remapResultFile(params: RemapFileParams): void {
+  const manifest = readManifest(params.manifestPath);
+  const output = params.output ?? params.input;
+
+  if (isMessagesReport(params.input)) {
+    const envelopes = parseMessages(fs.readFileSync(params.input, 'utf8'));
+    fs.outputFileSync(output, formatMessages(remapMessages(envelopes, manifest, params)), 'utf8');
+  } else {
+    const report = remapCucumberJson(readCucumberJson(params.input), manifest, params);
+    fs.outputJsonSync(output, report, { spaces: 2 });
+  }
+  (params.logger ?? consoleLogger).info(`🔁 Remapped ${params.input} -> ${output}`);
+}
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+function indexManifest(manifest: SourceManifest): Map<string, ManifestEntry> {
+  return new Map(manifest.entries.map((entry) => [entry.file, entry]));
+}
+
+function loadOriginal(uri: string, cache: Map<string, OriginalSource>, options: RemapOptions): OriginalSource {
+  const cached = cache.get(uri);
+  if (cached) {
+    return cached;
+  }
+
+  const readSource = options.readSource ?? ((sourceUri: string) => fs.readFileSync(sourceUri, 'utf8'));
+  const data = readSource(uri);
+  const parsed = parseFeatureSource(data, uri).gherkinDocument;
+  const feature = mergeExternalExamples(parsed.feature!, uri, {
+    readDataFile: options.readDataFile ?? readDataFileSync
+  });
+  const gherkinDocument = { ...parsed, feature };
+  const pickles = [...compilePickles(gherkinDocument, feature, uri).values()];
+  const original: OriginalSource = {
+    uri,
+    data,
+    gherkinDocument,
+    nodes: indexAstNodes(feature),
+    pickleNames: new Map(pickles.map((pickle) => [pickle.astNodeIds[pickle.astNodeIds.length - 1], pickle.name])),
+    dataRowIds: new Map()
+  };
+  for (const { scenario } of collectScenarioEntries(feature)) {
+    for (const row of scenario.examples.flatMap((examples) => examples.tableBody)) {
+      const dataRow = dataRowSource(row);
+      if (dataRow) {
+        original.dataRowIds.set(`${toManifestPath(dataRow.dataFile)}:${dataRow.dataRowIndex}`, row.id);
+      }
+    }
+  }
+  cache.set(uri, original);
+  return original;
+}
+
+/**
+ * Id of the row of a `@data:` file printed on a line of a split file, in the original.
+ */
+function dataRowId(entry: ManifestEntry, line: number | undefined, original: OriginalSource): string | undefined {
+  const dataRow = line === undefined ? undefined : entry.dataRows?.[line];
+  return dataRow && original.dataRowIds.get(`${dataRow.dataFile}:${dataRow.dataRowIndex}`);
+}
+
+function remapElement(
+  element: CucumberJsonElement,
+  mapLine: (line: number) => number,
+  original: OriginalSource,
+  rowId: string | undefined
+): CucumberJsonElement {
+  const line = mapLine(element.line);
+  const originalId = rowId ?? original.nodes.idByLine.get(line);
+  const name = (originalId && original.pickleNames.get(originalId)) ?? element.name;
+
+  return {
+    ...element,
+    line,
+    name,
+    tags: remapTags(element.tags, mapLine),
+    steps: element.steps.map((step) => ({
+      ...step,
+      line: step.line === undefined ? undefined : mapLine(step.line),
+      arguments: step.arguments?.map((argument) =>
+        argument.line === undefined ? argument : { ...argument, line: mapLine(argument.line) }
+      )
+    }))
+  };
+}
+
+function remapTags(
+  tags: CucumberJsonTag[] | undefined,
+  mapLine: (line: number) => number
+): CucumberJsonTag[] | undefined {
+  return tags?.map((tag) => (tag.line === undefined ? tag : { ...tag, line: mapLine(tag.line) }));
+}
+
+function remapPickle(
+  pickle: messages.Pickle,
+  entry: ManifestEntry,
+  split: AstNodeIndex | undefined,
+  original: OriginalSource
+): messages.Pickle {
+  // split node id -> split line -> original line -> original node id (or data row -> original row id)
+  const mapId = (id: string): string => {
+    const line = split?.lineById.get(id);
+    const rowId = dataRowId(entry, line, original);
+    if (rowId) {
+      return rowId;
+    }
+    const originalLine = line === undefined ? undefined : (entry.lineMap?.[line] ?? line);
+    return (originalLine !== undefined && original.nodes.idByLine.get(originalLine)) || id;
+  };
+  const mapTagId = (tag: messages.PickleTag): string => {
+    const line = split?.lineById.get(tag.astNodeId);
+    const originalLine = line === undefined ? undefined : (entry.lineMap?.[line] ?? line);
+    return original.nodes.tagIdByKey.get(`${originalLine}:${tag.name}`) ?? tag.astNodeId;
+  };
+
+  // A Scenario split from a pickle (`expansion: 'pickles'`) starts at its Examples row: point it and
+  // its outline steps at the outline and the row again, as the pickles of the original file are
+  const { parentIdById } = original.nodes;
+  const mappedIds = pickle.astNodeIds.map(mapId);
+  const outlineId = mappedIds.length === 1 ? parentIdById.get(mappedIds[0]) : undefined;
+  const astNodeIds = outlineId ? [outlineId, ...mappedIds] : mappedIds;
+  const mapStepIds = (ids: readonly string[]): string[] => {
+    const stepIds = ids.map(mapId);
+    return outlineId && parentIdById.get(stepIds[0]) === outlineId ? [...stepIds, mappedIds[0]] : stepIds;
+  };
+  return {
+    ...pickle,
+    uri: original.uri,
+    name: original.pickleNames.get(astNodeIds[astNodeIds.length - 1]) ?? pickle.name,
+    astNodeIds,
+    steps: pickle.steps.map((step) => ({ ...step, astNodeIds: mapStepIds(step.astNodeIds) })),
+    tags: pickle.tags.map((tag) => ({ ...tag, astNodeId: mapTagId(tag) }))
+  };
+}
@@ -0,0 +1,323 @@
+import * as messages from '@cucumber/messages';
+import * as fs from 'fs-extra';
+import { glob } from 'glob';
+import { collectScenarioEntries, findPlaceholders, isScenarioOutlineKeyword } from '../../helpers/gherkinUtils';
+import { parseFeatureSource } from '../../helpers/parseUtils';
+import { ExternalExamplesError, FeatureIoError, GherkinParseError } from '../../helpers/errors';
+import { mergeExternalExamples, readReferencedDataFiles, ExternalDataOptions } from '../../helpers/externalExamples';
+import { consoleLogger } from '../../helpers/logger';
+import { toManifestPath } from '../../helpers/manifest';
+import { withIoError, RunOptions, RunResult } from '../../helpers/runResult';
+
+/**
+ * Severity of every validation rule, unless configured otherwise:
+ * - unknown-placeholder: a `<placeholder>` of an outline has no column in one of its Examples
+ * - unused-examples-column: an Examples column is not used by any placeholder of its outline
+ * - inconsistent-cell-count: a table row has a different number of cells (the file can't be parsed)
+ * - empty-examples: an Examples block has no table or no rows
+ * - duplicate-scenario-name: two scenarios of a feature have the same name
+ * - outline-without-examples: a Scenario Outline has no Examples
+ * - external-examples: a `@data:` file of an Examples block is missing or invalid, or lacks a column
+ * - parse-error: any other Gherkin syntax error
+ */
+export const DEFAULT_RULE_SEVERITIES = {
+  'unknown-placeholder': 'error',
+  'unused-examples-column': 'warning',
+  'inconsistent-cell-count': 'error',
+  'empty-examples': 'error',
+  'duplicate-scenario-name': 'warning',
+  'outline-without-examples': 'error',
+  'external-examples': 'error',
+  'parse-error': 'error'
+} as const satisfies Record<string, RuleSeverity>;
+
+export type ValidationRuleId = keyof typeof DEFAULT_RULE_SEVERITIES;
+
+/** `off` disables a rule. */
+export type RuleSeverity = 'error' | 'warning' | 'off';
+
+/**
+ * One problem found in a feature file. `line` and `column` are 1-based.
+ */
+export interface ValidationDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  severity: Exclude<RuleSeverity, 'off'>;
+  rule: ValidationRuleId;
+  message: string;
+}
+
+/**
+ * Options of the validators:
+ * - rules?: severity per rule id, overriding {@link DEFAULT_RULE_SEVERITIES}
+ * - language?: dialect of the files without a `# language:` header, default: en
+ */
+export interface ValidateOptions {
+  rules?: Partial<Record<ValidationRuleId, RuleSeverity>>;
+  language?: string;
+}
+
+/**
+ * Options of the in-memory validator; `uri` labels the diagnostics, and `readDataFile` reads the
+ * `@data:` files, see {@link ExternalDataOptions}.
+ */
+export interface ValidateSourceOptions extends ValidateOptions, ExternalDataOptions {
+  uri?: string;
+}
+
+/**
+ * Options of {@link validateFeatures}:
+ * - logger?/failFast?: where the diagnostics go, and whether to stop at the first file that can't be
+ *   read, see {@link RunOptions}
+ */
+export interface ValidateFeaturesOptions extends ValidateOptions, RunOptions {}
+
+/**
+ * Outcome of a validation run. The files that can't be read are listed in `skippedFiles`, with
+ * their errors in `fileErrors`; Gherkin syntax errors are diagnostics.
+ */
+export interface ValidationSummary extends Pick<RunResult, 'skippedFiles' | 'fileErrors'> {
+  featureFiles: number;
+  diagnostics: ValidationDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/** Used when the caller does not say where the source comes from. */
+const DEFAULT_SOURCE_URI = 'inline.feature';
+
+/** A diagnostic before its severity is applied. */
+type Finding = Omit<ValidationDiagnostic, 'severity' | 'file'>;
+
+/**
+ * Validates Gherkin source text, without touching the filesystem (unless `options.readDataFile` does).
+ * Returns the diagnostics of the enabled rules, in source order.
+ *
+ * @throws {Error} for unknown rule ids or severities in `options.rules`.
+ */
+export function validateFeatureSource(source: string, options: ValidateSourceOptions = {}): ValidationDiagnostic[] {
+  const uri = options.uri ?? DEFAULT_SOURCE_URI;
+  const severities = resolveSeverities(options.rules);
+
+  let findings: Finding[];
+  try {
+    const { gherkinDocument } = parseFeatureSource(source, uri, false, options.language);
+    const feature =
+      gherkinDocument.feature &&
+      mergeExternalExamples(gherkinDocument.feature, uri, { readDataFile: options.readDataFile });
+    findings = feature ? checkFeature(feature) : [];
+  } catch (error) {
+    if (!(error instanceof GherkinParseError)) {
+      throw error;
+    }
+    findings = [parseErrorFinding(error)];
+  }
+
+  return findings
+    .filter((finding) => severities[finding.rule] !== 'off')
+    .map((finding) => ({
+      file: uri,
+      severity: severities[finding.rule] as ValidationDiagnostic['severity'],
+      ...finding
+    }))
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Validates the feature files matching a path or glob pattern and logs their diagnostics.
+ * File paths in the diagnostics are relative to the working directory.
+ */
+export async function validateFeatures(
+  filePathOrPattern: string,
+  options: ValidateFeaturesOptions = {}
+): Promise<ValidationSummary> {
+  const logger = options.logger ?? consoleLogger;
+  const files = glob.sync(filePathOrPattern).sort();
+  const summary: ValidationSummary = {
+    featureFiles: files.length,
+    diagnostics: [],
+    errorCount: 0,
+    warningCount: 0,
+    skippedFiles: [],
+    fileErrors: []
+  };
+  const validateOptions = { rules: options.rules, language: options.language };
+
+  for (const filePath of files) {
+    try {
+      const source = await withIoError(filePath, 'read', () => fs.promises.readFile(filePath, 'utf8'));
+      const uri = toManifestPath(filePath);
+      const dataFiles = await readReferencedDataFiles(source, uri);
+      summary.diagnostics.push(
+        ...validateFeatureSource(source, {
+          ...validateOptions,
+          uri,
+          readDataFile: (dataFile) => dataFiles.get(dataFile)
+        })
+      );
+    } catch (error) {
+      if (options.failFast || !(error instanceof FeatureIoError)) {
+        throw error;
+      }
+      summary.fileErrors.push(error);
+      summary.skippedFiles.push({ file: filePath, reason: 'io-error' });
+      logger.error(`❌ ${error.message}`);
+    }
+  }
+
+  for (const diagnostic of summary.diagnostics) {
+    const icon = diagnostic.severity === 'error' ? '❌' : '⚠️ ';
+    logger.info(
+      `${icon} ${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message} (${diagnostic.rule})`
+    );
+  }
+  summary.errorCount = summary.diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  summary.warningCount = summary.diagnostics.length - summary.errorCount;
+
+  if (summary.diagnostics.length) {
+    logger.info(`\n🔎 ${summary.errorCount} error(s), ${summary.warningCount} warning(s) in ${files.length} file(s)`);
+  } else {
+    logger.info(`✅ No problems found in ${files.length} file(s)`);
+  }
+  return summary;
+}
+
+// --------------------------------------------------------------------------
+// Rules
+// --------------------------------------------------------------------------
+
+function checkFeature(feature: messages.Feature): Finding[] {
+  const findings: Finding[] = [];
+  const firstByName = new Map<string, messages.Scenario>();
+
+  for (const { scenario } of collectScenarioEntries(feature)) {
+    const first = firstByName.get(scenario.name.trim());
+    if (first) {
+      findings.push({
+        ...at(scenario.location),
+        rule: 'duplicate-scenario-name',
+        message: `Duplicate scenario name "${scenario.name}" (first at line ${first.location.line})`
+      });
+    } else {
+      firstByName.set(scenario.name.trim(), scenario);
+    }
+
+    if (scenario.examples.length) {
+      findings.push(...checkOutline(scenario));
+    } else if (isScenarioOutlineKeyword(scenario.keyword, feature.language)) {
+      findings.push({
+        ...at(scenario.location),
+        rule: 'outline-without-examples',
+        message: `${scenario.keyword} "${scenario.name}" has no Examples`
+      });
+    }
+  }
+
+  return findings;
+}
+
+function checkOutline(outline: messages.Scenario): Finding[] {
+  const findings: Finding[] = [];
+  const placeholders = collectPlaceholders(outline);
+  const used = new Set(placeholders.map((placeholder) => placeholder.name));
+  const headed = outline.examples.filter((examples) => examples.tableHeader);
+
+  for (const examples of outline.examples) {
+    if (!examples.tableHeader || !examples.tableBody.length) {
+      findings.push({
+        ...at(examples.location),
+        rule: 'empty-examples',
+        message: `${examples.keyword} ${examples.name ? `"${examples.name}" ` : ''}has no ${examples.tableHeader ? 'rows' : 'table'}`
+      });
+    }
+
+    for (const cell of examples.tableHeader?.cells ?? []) {
+      if (!used.has(cell.value)) {
+        findings.push({
+          ...at(cell.location),
+          rule: 'unused-examples-column',
+          message: `Examples column "${cell.value}" is not used by any placeholder`
+        });
+      }
+    }
+  }
+
+  for (const placeholder of placeholders) {
+    const missing = headed.filter((examples) => !examples.tableHeader!.cells.some((c) => c.value === placeholder.name));
+    if (missing.length) {
+      const lines = missing.map((examples) => examples.location.line).join(', ');
+      findings.push({
+        line: placeholder.line,
+        column: placeholder.column,
+        rule: 'unknown-placeholder',
+        message: `Placeholder <${placeholder.name}> has no column in the Examples at line ${lines}`
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Every `<placeholder>` of an outline (name, steps, docstrings and data tables) with its location.
+ */
+function collectPlaceholders(outline: messages.Scenario): (SourcePosition & { name: string })[] {
+  const result: (SourcePosition & { name: string })[] = [];
+  const add = (text: string, { line, column }: SourcePosition, offset = 0) =>
+    findPlaceholders(text).forEach(({ name, index }) => result.push({ name, line, column: column + offset + index }));
+
+  // `Scenario Outline: <name>`, assuming a single space after the colon
+  add(outline.name, at(outline.location), outline.keyword.length + 2);
+
+  for (const step of outline.steps) {
+    add(step.text, at(step.location), step.keyword.length);
+    const docString = step.docString;
+    if (docString) {
+      const start = at(docString.location);
+      docString.content.split('\n').forEach((text, i) => add(text, { ...start, line: start.line + 1 + i }));
+    }
+    step.dataTable?.rows.forEach((row) => row.cells.forEach((cell) => add(cell.value, at(cell.location))));
+  }
+
+  return result;
+}
+
+function parseErrorFinding(error: GherkinParseError): Finding {
+  if (error instanceof ExternalExamplesError) {
+    return { line: error.line ?? 1, column: error.column ?? 1, rule: 'external-examples', message: error.message };
+  }
+  // Parser messages start with the location, e.g. "(5:7): inconsistent cell count within the table"
+  const message = error.message.replace(/^\(\d+:\d+\): /, '');
+  return {
+    line: error.line ?? 1,
+    column: error.column ?? 1,
+    rule: /inconsistent cell count/i.test(message) ? 'inconsistent-cell-count' : 'parse-error',
+    message
+  };
+}
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+function at(location: messages.Location): SourcePosition {
+  return { line: location.line, column: location.column ?? 1 };
+}
+
+function resolveSeverities(rules: ValidateOptions['rules'] = {}): Record<ValidationRuleId, RuleSeverity> {
+  for (const [rule, severity] of Object.entries(rules)) {
+    if (!(rule in DEFAULT_RULE_SEVERITIES)) {
+      throw new Error(`Unknown validation rule "${rule}" (known: ${Object.keys(DEFAULT_RULE_SEVERITIES).join(', ')})`);
+    }
+    if (!['error', 'warning', 'off'].includes(severity)) {
+      throw new Error(`Invalid severity "${severity}" for rule "${rule}" (expected error, warning or off)`);
+    }
+  }
+  return { ...DEFAULT_RULE_SEVERITIES, ...rules };
+}
@@ -0,0 +1,74 @@
+import { runCli, EXIT_CODES } from '../src/cli';
+import * as fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+describe('gherkin-utils CLI', () => {
+  const featureDir = path.resolve(__dirname, 'features');
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-cli-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.removeSync(workDir);
+  });
+
+  test('split reads a named profile from the config file', async () => {
+    const outDir = path.join(workDir, 'out');
+    const configPath = path.join(workDir, 'gherkin-utils.config.json');
+    fs.writeJsonSync(configPath, {
+      split: { sourceSpecDirectory: featureDir, tmpSpecDirectory: outDir },
+      profiles: { sanity: { split: { tagExpression: '@sanity', cleanTmpSpecDirectory: true } } }
+    });
+
+    const exitCode = await runCli(['split', '--config', configPath, '--profile', 'sanity']);
+
+    expect(exitCode).toBe(EXIT_CODES.success);
+    const written = fs.readdirSync(outDir);
+    expect(written).toContain('docstring_1.feature');
+    expect(written).not.toContain('scenariooutline_rule_1.feature');
+  });
+
+  test('split exits with noMatch when no scenario matches', async () => {
+    const exitCode = await runCli(['split', '-s', featureDir, '-o', path.join(workDir, 'out'), '-t', '@doesNotExist']);
+    expect(exitCode).toBe(EXIT_CODES.noMatch);
+  });
+
+  test('convert exits with error on parse errors', async () => {
+    const badFile = path.join(workDir, 'bad.feature');
+    fs.writeFileSync(badFile, 'Feature: broken\n  Scenario: table\n    Given x\n      | a | b |\n      | c |\n');
+    expect(await runCli(['convert', badFile])).toBe(EXIT_CODES.error);
+  });
+
+  test('validate fails on errors unless their rule is relaxed', async () => {
+    const file = path.join(workDir, 'outline.feature');
+    fs.writeFileSync(
+      file,
+      'Feature: x\n  Scenario Outline: y\n    Given <missing>\n\n    Examples:\n      | a |\n      | 1 |\n'
+    );
+
+    expect(await runCli(['validate', file])).toBe(EXIT_CODES.checkFailed);
+    expect(await runCli(['validate', file, '--rule', 'unknown-placeholder=warning'])).toBe(EXIT_CODES.success);
+    expect(await runCli(['validate', file, '--rule', 'unknown-placeholder'])).toBe(EXIT_CODES.error);
+  });
+
+  test('inventory prints the test cases of the matched files', async () => {
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    const exitCode = await runCli(['inventory', path.join(featureDir, 'docstring.feature'), '--format', 'csv']);
+
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(write.mock.calls[0][0]).toMatch(/^Feature,Rule,Test case,/);
+  });
+
+  test('unknown profiles are reported as errors', async () => {
+    const exitCode = await runCli(['split', '-s', featureDir, '-o', workDir, '--profile', 'missing']);
+    expect(exitCode).toBe(EXIT_CODES.error);
+  });
+});
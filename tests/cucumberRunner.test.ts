@@ -0,0 +1,119 @@
+import { prepareCucumberRun, runCucumberWithSetup, silentLogger, CucumberSetupOptions } from '../src/index';
+import { Envelope } from '@cucumber/messages';
+import { PassThrough } from 'stream';
+import * as fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+const LOGIN_FEATURE = `Feature: Login
+
+  @smoke
+  Scenario Outline: Login as <user>
+    Given I log in as <user>
+
+    Examples:
+      | user  |
+      | alice |
+      | bob   |
+
+  Scenario: Logout
+    Given I log out
+`;
+
+describe('Cucumber integration', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-cucumber-test-'));
+    fs.outputFileSync(path.join(workDir, 'features/auth/Login.feature'), LOGIN_FEATURE);
+    fs.outputFileSync(
+      path.join(workDir, 'features/steps.js'),
+      `const { Given } = require(${JSON.stringify(require.resolve('@cucumber/cucumber'))});\n` +
+        `Given(/^I log (?:in as \\w+|out)$/, () => undefined);\n`
+    );
+  });
+
+  afterEach(() => {
+    fs.removeSync(workDir);
+  });
+
+  const environment = () => ({ cwd: workDir, stdout: new PassThrough(), stderr: new PassThrough() });
+
+  test('runs the split files with the filters of the Cucumber configuration, then cleans up', async () => {
+    const pickles: string[] = [];
+    const onMessage = (message: Envelope) => message.pickle && pickles.push(message.pickle.name);
+
+    const result = await runCucumberWithSetup(
+      {
+        configuration: { file: false, provided: { paths: ['features'], tags: '@smoke', name: ['bob'] } },
+        environment: environment(),
+        logger: silentLogger
+      },
+      onMessage
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.split).toMatchObject({ filesWritten: 1, scenariosMatched: 1, scenariosFiltered: 2 });
+    expect(pickles).toEqual(['Login as bob']);
+    expect(result.split!.writtenFiles.every((file) => !fs.existsSync(file))).toBe(true);
+  });
+
+  test('rewrites the run configuration to the generated files', async () => {
+    const prepared = await prepareCucumberRun({
+      configuration: { file: false, provided: { paths: ['features/auth/Login.feature:12'] } },
+      environment: environment(),
+      logger: silentLogger,
+      keepOutput: true
+    });
+
+    expect(prepared.runConfiguration.sources.paths).toEqual([prepared.outputDirectory]);
+    expect(prepared.runConfiguration.support.importPaths).toEqual(['features']);
+    expect(fs.readdirSync(prepared.outputDirectory)).toEqual(['Login_1.feature']);
+    expect(fs.readFileSync(path.join(prepared.outputDirectory, 'Login_1.feature'), 'utf8')).toContain(
+      'Scenario: Logout'
+    );
+
+    await prepared.cleanup();
+    expect(fs.existsSync(prepared.outputDirectory)).toBe(true); // kept
+    fs.removeSync(prepared.outputDirectory);
+  });
+
+  test('converts the outlines in convert mode', async () => {
+    const pickles: string[] = [];
+    const result = await runCucumberWithSetup(
+      {
+        mode: 'convert',
+        configuration: { file: false, provided: { paths: ['features/**/*.feature'] } },
+        environment: environment(),
+        logger: silentLogger
+      },
+      (message) => message.pickle && pickles.push(message.pickle.name)
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.convert).toMatchObject({ modified: 1, scenariosMatched: 2 });
+    expect(pickles).toEqual(['Login as alice', 'Login as bob', 'Logout']);
+  });
+
+  test('refuses a non-empty output directory and only removes the generated files from a given one', async () => {
+    const outputDirectory = path.join(workDir, 'out');
+    fs.outputFileSync(path.join(outputDirectory, 'keep.txt'), 'mine');
+    const options: CucumberSetupOptions = {
+      configuration: { file: false, provided: { paths: ['features'] } },
+      environment: environment(),
+      logger: silentLogger,
+      outputDirectory
+    };
+
+    await expect(prepareCucumberRun(options)).rejects.toThrow(`The output directory must be empty: ${outputDirectory}`);
+    expect(fs.readFileSync(path.join(outputDirectory, 'keep.txt'), 'utf8')).toBe('mine');
+
+    fs.removeSync(path.join(outputDirectory, 'keep.txt'));
+    const prepared = await prepareCucumberRun(options);
+    expect(fs.readdirSync(outputDirectory)).toEqual(['Login_1.feature', 'Login_2.feature', 'Login_3.feature']);
+    fs.outputFileSync(path.join(outputDirectory, 'keep.txt'), 'mine');
+
+    await prepared.cleanup();
+    expect(fs.readdirSync(outputDirectory)).toEqual(['keep.txt']);
+  });
+});
@@ -0,0 +1,41 @@
+@featureTag
+Feature: Convert every scenario outline of a feature
+
+  Background:
+    Given the application is running
+
+  Scenario: Open the home page
+    When I open the "Home" page
+    Then I should see the welcome message
+
+  @smoke
+  Scenario: Open the Home page
+    When I open the "Home" page
+    Then I should see the Welcome title
+
+  @smoke
+  Scenario: Open the Profile page
+    When I open the "Profile" page
+    Then I should see the Account title
+
+  @regression
+  Scenario: Open the Help page
+    When I open the "Help" page
+    Then I should see the FAQ title
+
+  Rule: Administrators
+
+    Background:
+      Given I am logged in as an administrator
+
+    Scenario: Manage users
+      When I open the users settings
+      Then I can edit the users
+
+    Scenario: Manage roles
+      When I open the roles settings
+      Then I can edit the roles
+
+    Scenario: Leave the administration
+      When I log out
+      Then I should see the login page
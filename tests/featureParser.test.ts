@@ -1,14 +1,17 @@
-import { processFeatureFiles } from '../src/index';
+import { processFeatureFiles, convertOutlineSource, readDataFileSync } from '../src/index';
+import { parseFeatureSource } from '../src/helpers/parseUtils';
+import { createUnifiedDiff } from '../src/helpers/diffUtils';
 import * as fs from 'fs-extra';
+import os from 'os';
 import path from 'path';
 
 describe('Feature File Processing (Real Files)', () => {
   const featureDir = path.resolve(__dirname, 'features');
   const expectedDir = path.resolve(__dirname, 'expected_results');
 
-  const featureFiles = fs.readdirSync(featureDir).filter(file => file.endsWith('.feature'));
+  const featureFiles = fs.readdirSync(featureDir).filter((file) => file.endsWith('.feature'));
 
-  featureFiles.forEach(file => {
+  featureFiles.forEach((file) => {
     test(`Processing: ${file}`, async () => {
       const featureFilePath = path.join(featureDir, file);
       const expectedFilePath = path.join(expectedDir, file);
@@ -36,3 +39,442 @@ describe('Feature File Processing (Real Files)', () => {
     });
   });
 });
+
+describe('convertOutlineSource', () => {
+  test('converts in memory and reports the origin of the converted scenario', () => {
+    const source = fs.readFileSync(path.resolve(__dirname, 'features', 'scenariooutline_rule.feature'), 'utf8');
+    const expected = fs.readFileSync(
+      path.resolve(__dirname, 'expected_results', 'scenariooutline_rule.feature'),
+      'utf8'
+    );
+
+    const result = convertOutlineSource(source, { uri: 'scenariooutline_rule.feature' });
+
+    expect(result.converted).toBe(true);
+    expect(result.content.trim()).toBe(expected.trim());
+    expect(result.origins).toHaveLength(1);
+    expect(result.origins[0]).toMatchObject({ uri: 'scenariooutline_rule.feature', rowLine: expect.any(Number) });
+  });
+
+  test('converts every row of every outline and reports one origin per scenario', () => {
+    const source = fs.readFileSync(
+      path.resolve(__dirname, 'features', 'multiple_scenariooutlines_rules.feature'),
+      'utf8'
+    );
+
+    const result = convertOutlineSource(source);
+
+    expect(result.origins.map((origin) => [origin.ruleName, origin.examplesName, origin.rowIndex])).toEqual([
+      [undefined, 'Main pages', 0],
+      [undefined, 'Main pages', 1],
+      [undefined, 'Other pages', 0],
+      ['Administrators', '', 0],
+      ['Administrators', '', 1]
+    ]);
+  });
+
+  test('keeps comments, repeating those of an outline for every converted row', () => {
+    const source = [
+      '# Owner: team-auth',
+      'Feature: Login',
+      '',
+      '  # flaky on CI',
+      '  Scenario Outline: Login as <user>',
+      '    Given I log in as <user>',
+      '',
+      '    Examples:',
+      '      | user  |',
+      '      | alice |',
+      '      | bob   |',
+      ''
+    ].join('\n');
+
+    const { content } = convertOutlineSource(source);
+
+    expect(content).toBe(
+      [
+        '# Owner: team-auth',
+        'Feature: Login',
+        '',
+        '  # flaky on CI',
+        '  Scenario: Login as alice',
+        '    Given I log in as alice',
+        '',
+        '  # flaky on CI',
+        '  Scenario: Login as bob',
+        '    Given I log in as bob',
+        ''
+      ].join('\n')
+    );
+  });
+
+  test('keeps the dialect of the source and uses its Scenario keyword', () => {
+    const source = [
+      '# language: de',
+      'Funktionalität: Anmeldung',
+      '',
+      '  Szenariogrundriss: Anmelden als <user>',
+      '    Wenn ich mich als <user> anmelde',
+      '',
+      '    Beispiele:',
+      '      | user  |',
+      '      | alice |',
+      ''
+    ].join('\n');
+
+    const result = convertOutlineSource(source);
+
+    expect(result.converted).toBe(true);
+    expect(result.content).toBe(
+      '# language: de\nFunktionalität: Anmeldung\n\n  Szenario: Anmelden als alice\n    Wenn ich mich als alice anmelde\n'
+    );
+  });
+
+  test('only converts the rows passing the name filters', () => {
+    const source = [
+      'Feature: Login',
+      '',
+      '  Scenario Outline: Login as <user>',
+      '    Given I log in as <user>',
+      '',
+      '    Examples:',
+      '      | user  |',
+      '      | alice |',
+      '      | bob   |',
+      ''
+    ].join('\n');
+
+    const { content, origins } = convertOutlineSource(source, { excludeNames: ['bob'] });
+
+    expect(origins.map((origin) => origin.values)).toEqual([{ user: 'alice' }]);
+    expect(content).toContain('  Scenario: Login as alice\n    Given I log in as alice\n');
+    expect(content).toContain('  Scenario Outline: Login as <user>');
+    expect(content).toContain('      | bob  |');
+    expect(content).not.toContain('| alice |');
+  });
+
+  test('inlines the backgrounds into the converted scenarios, without replacing their placeholders', () => {
+    const source = [
+      'Feature: Login',
+      '',
+      '  Background:',
+      '    Given the <app> is running',
+      '',
+      '  Scenario Outline: Login as <user>',
+      '    Given I log in as <user>',
+      '',
+      '    Examples:',
+      '      | user  | app |',
+      '      | alice | web |',
+      ''
+    ].join('\n');
+
+    const { content } = convertOutlineSource(source, { inlineBackgrounds: true });
+
+    expect(content).toBe(
+      'Feature: Login\n\n  Scenario: Login as alice\n    Given the <app> is running\n    Given I log in as alice\n'
+    );
+  });
+
+  test('returns the source untouched when there is no scenario', () => {
+    const source = 'Feature: Empty\n';
+    expect(convertOutlineSource(source)).toEqual({ content: source, converted: false, origins: [] });
+  });
+
+  test('converts the valid outlines and leaves an outline without Examples rows as it is', () => {
+    const source = [
+      'Feature: Login',
+      '',
+      '  Scenario Outline: Login as <user>',
+      '    Given I log in as <user>',
+      '',
+      '    Examples:',
+      '      | user  |',
+      '      | alice |',
+      '',
+      '  Scenario Outline: Logout as <user>',
+      '    Given I log out as <user>',
+      '',
+      '    Examples:',
+      '      | user |',
+      ''
+    ].join('\n');
+
+    const result = convertOutlineSource(source);
+
+    expect(result.converted).toBe(true);
+    expect(result.content).toContain('  Scenario: Login as alice\n    Given I log in as alice\n');
+    expect(result.content).toContain('  Scenario Outline: Logout as <user>');
+    expect(result.malformed).toEqual([expect.objectContaining({ scenarioName: 'Logout as <user>', scenarioLine: 10 })]);
+  });
+
+  test('takes the scenarios from the pickles with the pickles expansion', () => {
+    const source = [
+      'Feature: Messages',
+      '',
+      '  Scenario Outline: Send <a> as <b>',
+      '    Given I send "<a>"',
+      '      """<type>',
+      '      body <b>',
+      '      """',
+      '',
+      '    @json',
+      '    Examples:',
+      '      | a   | b   | type |',
+      '      | <b> | two | json |',
+      ''
+    ].join('\n');
+    const pickles = (content: string) =>
+      parseFeatureSource(content, 'test.feature', true).pickles.map(({ name, steps, tags }) => ({
+        name,
+        steps: steps.map(({ text, argument }) => ({ text, argument })),
+        tags: tags.map((tag) => tag.name)
+      }));
+
+    const ast = convertOutlineSource(source);
+    const compiled = convertOutlineSource(source, { expansion: 'pickles' });
+
+    expect(ast.content).toContain('Scenario: Send <b> as two');
+    expect(compiled.content).toBe(
+      'Feature: Messages\n\n  @json\n  Scenario: Send two as two\n    Given I send "two"\n' +
+        '      """json\n      body two\n      """\n'
+    );
+    expect(pickles(compiled.content)).toEqual(pickles(source));
+    expect(compiled.origins).toEqual(ast.origins);
+    expect(() => convertOutlineSource(source, { expansion: 'cucumber' as never })).toThrow(
+      'Invalid expansion: cucumber (expected ast or pickles)'
+    );
+  });
+});
+
+describe('External Examples data', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-data-'));
+  });
+
+  afterEach(() => {
+    fs.removeSync(workDir);
+  });
+
+  const outline = (examples: string[]) =>
+    ['Feature: Login', '', '  Scenario Outline: Login as <user>', '    Given I log in as <user> with <password>', '']
+      .concat(examples)
+      .join('\n');
+
+  test('appends the rows of a CSV file to the Examples table', () => {
+    fs.outputFileSync(path.join(workDir, 'users.csv'), 'password,user\n"se,cret",bob\r\n"say ""hi""",carol\n');
+    const source = outline([
+      '    @data:users.csv',
+      '    Examples:',
+      '      | user  | password |',
+      '      | alice | pwd      |',
+      ''
+    ]);
+
+    const { content, origins } = convertOutlineSource(source, {
+      uri: path.join(workDir, 'Login.feature'),
+      readDataFile: readDataFileSync
+    });
+
+    expect(origins.map((origin) => origin.values)).toEqual([
+      { user: 'alice', password: 'pwd' },
+      { user: 'bob', password: 'se,cret' },
+      { user: 'carol', password: 'say "hi"' }
+    ]);
+    expect(content).toContain('    Given I log in as carol with say "hi"\n');
+    expect(content).not.toContain('@data:');
+  });
+
+  test('adds an Examples block for a JSON file tagged on the outline', () => {
+    fs.outputJsonSync(path.join(workDir, 'data', 'users.json'), [{ user: 'dave', password: 42 }]);
+    const source = outline([]).replace('  Scenario Outline', '  @data:data/users.json\n  Scenario Outline');
+
+    const { origins } = convertOutlineSource(source, {
+      uri: path.join(workDir, 'Login.feature'),
+      readDataFile: readDataFileSync
+    });
+
+    expect(origins.map((origin) => [origin.examplesName, origin.values])).toEqual([
+      ['users.json', { user: 'dave', password: '42' }]
+    ]);
+  });
+
+  test('reports a missing data file or column at the line of the tag', () => {
+    const uri = path.join(workDir, 'Login.feature');
+    const source = outline(['    @data:users.csv', '    Examples:', '      | user | password |', '']);
+
+    let error: unknown;
+    try {
+      convertOutlineSource(source, { uri, readDataFile: readDataFileSync });
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toMatchObject({
+      name: 'ExternalExamplesError',
+      line: 6,
+      dataFile: path.join(workDir, 'users.csv')
+    });
+
+    fs.outputFileSync(path.join(workDir, 'users.csv'), 'user\nbob\n');
+    expect(() => convertOutlineSource(source, { uri, readDataFile: readDataFileSync })).toThrow(
+      /Column "password" of the Examples at line 7 is missing/
+    );
+  });
+
+  test('reads the data files through readDataFile only', () => {
+    fs.outputFileSync(path.join(workDir, 'users.csv'), 'user,password\nbob,pwd\n');
+    const uri = path.join(workDir, 'Login.feature');
+    const source = outline(['    @data:users.csv', '    Examples:', '      | user | password |', '']);
+
+    expect(() => convertOutlineSource(source, { uri })).toThrow(
+      /Examples data file not read, no readDataFile option given/
+    );
+    const readDataFile = jest.fn(() => 'user,password\ncarol,secret\n');
+    const { origins } = convertOutlineSource(source, { uri, readDataFile });
+    expect(readDataFile).toHaveBeenCalledWith(path.join(workDir, 'users.csv'));
+    expect(origins.map((origin) => origin.values)).toEqual([{ user: 'carol', password: 'secret' }]);
+  });
+});
+
+describe('Non-destructive conversion', () => {
+  const featureDir = path.resolve(__dirname, 'features');
+  const expectedDir = path.resolve(__dirname, 'expected_results');
+  const outlineFile = 'scenariooutline_datatable.feature';
+  let workDir: string;
+  let inputFile: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-convert-'));
+    inputFile = path.join(workDir, 'specs', 'nested', outlineFile);
+    fs.copySync(path.join(featureDir, outlineFile), inputFile);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.removeSync(workDir);
+  });
+
+  test('writes into the output directory and leaves the input untouched', async () => {
+    const original = fs.readFileSync(inputFile, 'utf8');
+    const outDir = path.join(workDir, 'out');
+
+    const summary = await processFeatureFiles(inputFile, {
+      outputDirectory: outDir,
+      baseDirectory: path.join(workDir, 'specs')
+    });
+
+    expect(summary.modified).toBe(1);
+    expect(fs.readFileSync(inputFile, 'utf8')).toBe(original);
+    expect(fs.readFileSync(path.join(outDir, 'nested', outlineFile), 'utf8').trim()).toBe(
+      fs.readFileSync(path.join(expectedDir, outlineFile), 'utf8').trim()
+    );
+  });
+
+  test('reports written and skipped files and typed errors through the logger', async () => {
+    const brokenFile = path.join(workDir, 'specs', 'Broken.feature');
+    fs.outputFileSync(brokenFile, 'Feature: Broken\n  Scenario: x\n    Given y\n  Foo\n');
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    const summary = await processFeatureFiles(path.join(workDir, 'specs/**/*.feature'), { logger });
+    const again = await processFeatureFiles(inputFile, { logger });
+
+    expect(summary).toMatchObject({
+      writtenFiles: [inputFile],
+      skippedFiles: [{ file: brokenFile, reason: 'parse-error' }],
+      scenariosFiltered: 0
+    });
+    expect(summary.scenariosMatched).toBeGreaterThan(0);
+    expect(summary.fileErrors).toEqual([
+      expect.objectContaining({ name: 'GherkinParseError', uri: expect.any(String), line: 4 })
+    ]);
+    expect(again.skippedFiles).toEqual([{ file: inputFile, reason: 'unchanged' }]);
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Parse error in'));
+    expect(console.log).not.toHaveBeenCalled();
+    await expect(processFeatureFiles(brokenFile, { failFast: true, logger })).rejects.toMatchObject({ line: 4 });
+  });
+
+  test('warns about the outlines left unconverted', async () => {
+    const emptyFile = path.join(workDir, 'specs', 'Empty.feature');
+    fs.outputFileSync(emptyFile, 'Feature: Empty\n  Scenario Outline: x <a>\n    Given y <a>\n    Examples:\n');
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    const summary = await processFeatureFiles(emptyFile, { logger });
+
+    expect(summary.malformedOutlines).toEqual([
+      expect.objectContaining({ uri: expect.stringContaining('Empty.feature'), scenarioLine: 2 })
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      '⚠️  Left Scenario Outline "x <a>" (line 2) unconverted: its Examples have no header or no rows'
+    );
+  });
+
+  test('dry-run and check modes report changes without writing', async () => {
+    const original = fs.readFileSync(inputFile, 'utf8');
+
+    const dryRun = await processFeatureFiles(inputFile, { dryRun: true });
+    const check = await processFeatureFiles(inputFile, { check: true });
+
+    expect(dryRun.changedFiles).toEqual([inputFile]);
+    expect(check.changedFiles).toEqual([inputFile]);
+    expect(fs.readFileSync(inputFile, 'utf8')).toBe(original);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('-  Scenario Outline:'));
+  });
+
+  test('diffs a large rewrite as a single replacement hunk', () => {
+    const lines = (prefix: string) => Array.from({ length: 5000 }, (_, i) => `${prefix} ${i}`);
+    const oldText = ['Feature: x', ...lines('old'), '# end', ''].join('\n');
+    const newText = ['Feature: x', ...lines('new'), '# end', ''].join('\n');
+
+    const diff = createUnifiedDiff(oldText, newText, 'a', 'b').split('\n');
+
+    expect(diff.slice(0, 4)).toEqual(['--- a', '+++ b', '@@ -1,5002 +1,5002 @@', ' Feature: x']);
+    expect(diff[5003]).toBe('-old 4999');
+    expect(diff[5004]).toBe('+new 0');
+    expect(diff.slice(-3)).toEqual(['+new 4999', ' # end', '']);
+  });
+
+  test('reports timing stats', async () => {
+    const { timings } = await processFeatureFiles(inputFile);
+
+    expect(timings).toEqual({
+      totalMs: expect.any(Number),
+      readMs: expect.any(Number),
+      parseMs: expect.any(Number),
+      writeMs: expect.any(Number)
+    });
+    expect(timings!.parseMs).toBeLessThanOrEqual(timings!.totalMs);
+    expect(console.log).toHaveBeenLastCalledWith(expect.stringMatching(/^⏱️ {2}1 file\(s\) in \d+ ms \(read/));
+  });
+
+  test('writes the source, AST and pickle messages of the converted files', async () => {
+    const outDir = path.join(workDir, 'out');
+    const picklesPath = path.join(workDir, 'pickles.ndjson');
+
+    await processFeatureFiles(inputFile, {
+      outputDirectory: outDir,
+      baseDirectory: path.join(workDir, 'specs'),
+      expansion: 'pickles',
+      picklesPath
+    });
+
+    const envelopes = fs
+      .readFileSync(picklesPath, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    const outFile = path.join(outDir, 'nested', outlineFile);
+    expect(envelopes[0].source).toMatchObject({ data: fs.readFileSync(outFile, 'utf8') });
+    expect(envelopes[1].gherkinDocument.feature).toBeDefined();
+    expect(envelopes.slice(2).map((envelope) => envelope.pickle.name)).toEqual(
+      parseFeatureSource(fs.readFileSync(inputFile, 'utf8'), inputFile, true).pickles.map((pickle) => pickle.name)
+    );
+  });
+
+  test('check passes once files are converted', async () => {
+    await processFeatureFiles(inputFile);
+    expect((await processFeatureFiles(inputFile, { check: true })).changedFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,809 @@
+import {
+  performSetup,
+  splitFeatureSource,
+  readManifest,
+  watchFeatures,
+  GherkinParseError,
+  SplitSummary
+} from '../src/index';
+import * as fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+const LOGIN_FEATURE = `Feature: Login
+
+  Scenario Outline: Login as <user>
+    Given I log in as <user>
+
+    Examples:
+      | user  |
+      | alice |
+      | bob   |
+`;
+
+const MESSAGES_FEATURE = `Feature: Messages
+
+  Rule: Sending
+
+    Scenario Outline: Send <a>
+      Given I send "<a>"
+        """<type>
+        body
+        """
+
+      @json
+      Examples:
+        | a   | b   | type |
+        | <b> | two | json |
+        | one | two | xml  |
+`;
+
+describe('Feature splitting', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-split-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.removeSync(workDir);
+  });
+
+  function writeFeature(relativePath: string, content = LOGIN_FEATURE): void {
+    fs.outputFileSync(path.join(workDir, relativePath), content);
+  }
+
+  function listFiles(dir: string): string[] {
+    return fs
+      .readdirSync(dir, { recursive: true, encoding: 'utf8' })
+      .filter((file) => file.endsWith('.feature'))
+      .map((file) => file.split(path.sep).join('/'))
+      .sort();
+  }
+
+  test('discovers features recursively and mirrors the source layout', async () => {
+    writeFeature('specs/checkout/Login.feature');
+    writeFeature('specs/admin/Login.feature');
+    const outDir = path.join(workDir, 'tmp');
+
+    await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: outDir,
+      cleanTmpSpecDirectory: true
+    });
+
+    expect(listFiles(outDir)).toEqual([
+      'admin/Login_1.feature',
+      'admin/Login_2.feature',
+      'checkout/Login_1.feature',
+      'checkout/Login_2.feature'
+    ]);
+  });
+
+  test('skips an output folder nested in the source folder', async () => {
+    writeFeature('specs/auth/Login.feature');
+    const params = {
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: path.join(workDir, 'specs/tmp'),
+      cleanTmpSpecDirectory: false
+    };
+
+    await performSetup(params);
+    const second = await performSetup(params);
+
+    expect(second).toMatchObject({ featureFiles: 1, filesWritten: 2 });
+    expect(listFiles(path.join(workDir, 'specs/tmp'))).toEqual(['auth/Login_1.feature', 'auth/Login_2.feature']);
+  });
+
+  test('reports written and skipped files, filter counts and typed errors through the logger', async () => {
+    writeFeature('specs/Login.feature');
+    writeFeature('specs/Logout.feature', LOGIN_FEATURE.replace('Login', 'Logout'));
+    writeFeature('specs/Broken.feature', 'Feature: Broken\n  Scenario: x\n    Given y\n  Foo\n');
+    const outDir = path.join(workDir, 'tmp');
+    fs.outputFileSync(path.join(outDir, 'Logout'), 'in the way of the Logout folder');
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const params = {
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: outDir,
+      nameTemplate: '{feature}/{index}',
+      excludeNames: ['bob'],
+      logger,
+      cleanTmpSpecDirectory: false
+    };
+
+    const summary = await performSetup(params);
+
+    expect(summary).toMatchObject({
+      writtenFiles: [path.join(outDir, 'Login/1.feature')],
+      skippedFiles: [
+        { file: path.join(workDir, 'specs/Broken.feature'), reason: 'parse-error' },
+        { file: path.join(outDir, 'Logout/1.feature'), reason: 'io-error' }
+      ],
+      scenariosMatched: 2,
+      scenariosFiltered: 2
+    });
+    expect(summary.fileErrors).toEqual([
+      expect.objectContaining({ name: 'GherkinParseError', line: 4 }),
+      expect.objectContaining({
+        name: 'FeatureIoError',
+        path: path.join(outDir, 'Logout/1.feature'),
+        operation: 'write'
+      })
+    ]);
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Wrote Login/1.feature'));
+    expect(logger.error).toHaveBeenCalledTimes(2);
+    expect(console.log).not.toHaveBeenCalled();
+
+    await expect(performSetup({ ...params, failFast: true })).rejects.toBeInstanceOf(GherkinParseError);
+  });
+
+  test('applies include/exclude globs and nests multiple source roots', async () => {
+    writeFeature('web/Login.feature');
+    writeFeature('web/wip/Draft.feature');
+    writeFeature('api/Login.feature');
+    const outDir = path.join(workDir, 'tmp');
+
+    const summary = await performSetup({
+      sourceSpecDirectory: [path.join(workDir, 'web'), path.join(workDir, 'api')],
+      tmpSpecDirectory: outDir,
+      exclude: ['wip/**'],
+      cleanTmpSpecDirectory: true
+    });
+
+    expect(summary?.featureFiles).toBe(2);
+    expect(listFiles(outDir)).toEqual([
+      'api/Login_1.feature',
+      'api/Login_2.feature',
+      'web/Login_1.feature',
+      'web/Login_2.feature'
+    ]);
+  });
+
+  test('names the files from a template, unique per output folder', async () => {
+    writeFeature('specs/auth/Login.feature');
+    writeFeature('specs/auth/Relogin.feature');
+    const outDir = path.join(workDir, 'tmp');
+
+    await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: outDir,
+      nameTemplate: '{scenario}_{row}',
+      cleanTmpSpecDirectory: true
+    });
+
+    expect(listFiles(outDir)).toEqual([
+      'auth/Login_as_user_1.feature',
+      'auth/Login_as_user_1_2.feature',
+      'auth/Login_as_user_2.feature',
+      'auth/Login_as_user_2_2.feature'
+    ]);
+  });
+
+  test('incrementally re-splits changed files and deletes stale outputs', async () => {
+    writeFeature('specs/Login.feature');
+    writeFeature('specs/Logout.feature');
+    const outDir = path.join(workDir, 'tmp');
+    const params = {
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: outDir,
+      incremental: true,
+      cleanTmpSpecDirectory: false
+    };
+
+    const first = await performSetup(params);
+    expect(first?.incremental).toEqual({ reusedFeatureFiles: 0, unchangedFiles: 0, deletedFiles: 0, dataFiles: [] });
+    const logoutStat = fs.statSync(path.join(outDir, 'Logout_1.feature'));
+
+    writeFeature('specs/Login.feature', LOGIN_FEATURE.replace('      | bob   |\n', ''));
+    const second = await performSetup(params);
+
+    expect(second?.incremental).toEqual({ reusedFeatureFiles: 1, unchangedFiles: 3, deletedFiles: 1, dataFiles: [] });
+    expect(listFiles(outDir)).toEqual(['Login_1.feature', 'Logout_1.feature', 'Logout_2.feature']);
+    expect(fs.statSync(path.join(outDir, 'Logout_1.feature')).mtimeMs).toBe(logoutStat.mtimeMs);
+
+    fs.removeSync(path.join(workDir, 'specs/Logout.feature'));
+    const third = await performSetup({ ...params, tagExpression: 'not @wip' });
+
+    expect(third?.incremental).toEqual({ reusedFeatureFiles: 0, unchangedFiles: 1, deletedFiles: 2, dataFiles: [] });
+    expect(listFiles(outDir)).toEqual(['Login_1.feature']);
+  });
+
+  test('splits the rows of @data files, again when they change', async () => {
+    writeFeature('specs/Login.feature', LOGIN_FEATURE.replace('    Examples:', '    @data:users.csv\n    Examples:'));
+    fs.outputFileSync(path.join(workDir, 'specs/users.csv'), 'user\ncarol\n');
+    const outDir = path.join(workDir, 'tmp');
+    const params = {
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: outDir,
+      incremental: true,
+      cleanTmpSpecDirectory: false
+    };
+
+    await performSetup(params);
+    expect(listFiles(outDir)).toEqual(['Login_1.feature', 'Login_2.feature', 'Login_3.feature']);
+    expect(fs.readFileSync(path.join(outDir, 'Login_3.feature'), 'utf8')).toContain('      | carol |');
+
+    fs.outputFileSync(path.join(workDir, 'specs/users.csv'), 'user\ncarol\ndave\n');
+    const second = await performSetup(params);
+
+    expect(second?.incremental?.reusedFeatureFiles).toBe(0);
+    expect(listFiles(outDir)).toHaveLength(4);
+  });
+
+  test('watches the sources and keeps the outputs in sync', async () => {
+    writeFeature('specs/Login.feature');
+    const outDir = path.join(workDir, 'tmp');
+    const summaries: SplitSummary[] = [];
+    let notify: () => void = () => undefined;
+    const nextSplit = () => new Promise<void>((resolve) => (notify = resolve));
+
+    let split = nextSplit();
+    const watcher = watchFeatures(
+      { sourceSpecDirectory: path.join(workDir, 'specs'), tmpSpecDirectory: outDir, cleanTmpSpecDirectory: true },
+      {
+        debounceMs: 20,
+        onSplit: (summary) => {
+          summaries.push(summary);
+          notify();
+        }
+      }
+    );
+    try {
+      await split;
+      expect(listFiles(outDir)).toEqual(['Login_1.feature', 'Login_2.feature']);
+
+      split = nextSplit();
+      writeFeature('specs/Logout.feature', LOGIN_FEATURE.replace('Login', 'Logout'));
+      await split;
+      expect(listFiles(outDir)).toEqual(['Login_1.feature', 'Login_2.feature', 'Logout_1.feature', 'Logout_2.feature']);
+      expect(summaries[1].incremental?.reusedFeatureFiles).toBe(1);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  test('watches the @data files, also outside the source folders', async () => {
+    writeFeature(
+      'specs/Login.feature',
+      LOGIN_FEATURE.replace('    Examples:', '    @data:../data/users.csv\n    Examples:')
+    );
+    fs.outputFileSync(path.join(workDir, 'data/users.csv'), 'user\ncarol\n');
+    const outDir = path.join(workDir, 'tmp');
+    let notify: (summary: SplitSummary) => void = () => undefined;
+    const nextSplit = () => new Promise<SplitSummary>((resolve) => (notify = resolve));
+
+    let split = nextSplit();
+    const watcher = watchFeatures(
+      { sourceSpecDirectory: path.join(workDir, 'specs'), tmpSpecDirectory: outDir, cleanTmpSpecDirectory: true },
+      { debounceMs: 20, onSplit: (summary) => notify(summary) }
+    );
+    try {
+      const first = await split;
+      expect(first.incremental?.dataFiles).toEqual([path.join(workDir, 'data/users.csv')]);
+      expect(listFiles(outDir)).toEqual(['Login_1.feature', 'Login_2.feature', 'Login_3.feature']);
+
+      split = nextSplit();
+      fs.outputFileSync(path.join(workDir, 'data/users.csv'), 'user\ncarol\ndave\n');
+      const second = await split;
+      expect(second.incremental?.reusedFeatureFiles).toBe(0);
+      expect(listFiles(outDir)).toHaveLength(4);
+      expect(fs.readFileSync(path.join(outDir, 'Login_4.feature'), 'utf8')).toContain('      | dave |');
+    } finally {
+      watcher.close();
+    }
+  });
+
+  test('writes a manifest linking every generated file to its origin', async () => {
+    writeFeature('specs/auth/Login.feature');
+    const outDir = path.join(workDir, 'tmp');
+    const manifestPath = path.join(workDir, 'manifest.json');
+
+    await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: outDir,
+      manifestPath,
+      cleanTmpSpecDirectory: true
+    });
+
+    const manifest = readManifest(manifestPath);
+    expect(manifest.generator).toBe('split');
+    expect(manifest.entries).toHaveLength(2);
+    expect(manifest.entries[1].file).toMatch(/tmp\/auth\/Login_2\.feature$/);
+    expect(manifest.entries[1].origin).toMatchObject({
+      featureName: 'Login',
+      scenarioName: 'Login as <user>',
+      scenarioLine: 3,
+      rowIndex: 1,
+      rowLine: 9,
+      values: { user: 'bob' }
+    });
+    expect(manifest.entries[1].origin.uri).toMatch(/specs\/auth\/Login\.feature$/);
+  });
+
+  test('writes each shard into its own folder, balanced by scenario count', async () => {
+    writeFeature('specs/a/Login.feature');
+    writeFeature('specs/b/Login.feature');
+    writeFeature('specs/c/Login.feature');
+    const outDir = path.join(workDir, 'tmp');
+
+    const summary = await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: outDir,
+      shardCount: 4,
+      cleanTmpSpecDirectory: true
+    });
+
+    expect(summary?.shards?.map((shard) => shard.scenarios)).toEqual([2, 2, 1, 1]);
+    expect(listFiles(path.join(outDir, 'shard-1'))).toEqual(['a/Login_1.feature', 'c/Login_1.feature']);
+  });
+
+  test('writes only the selected shard, balanced by previous durations', async () => {
+    writeFeature('specs/Login.feature');
+    writeFeature('specs/Logout.feature', LOGIN_FEATURE.replace('Scenario Outline: Login', 'Scenario Outline: Logout'));
+    const sourceUri = path
+      .relative(process.cwd(), path.join(workDir, 'specs', 'Login.feature'))
+      .split(path.sep)
+      .join('/');
+    const reportPath = path.join(workDir, 'cucumber.json');
+    // Previous run of Login.feature: alice (row line 8) took 10s, bob (line 9) 2s
+    fs.writeJsonSync(reportPath, [
+      {
+        id: 'login',
+        uri: sourceUri,
+        keyword: 'Feature',
+        line: 1,
+        name: 'Login',
+        elements: [
+          {
+            id: 'a',
+            keyword: 'Scenario Outline',
+            line: 8,
+            name: 'a',
+            steps: [{ keyword: 'Given ', result: { status: 'passed', duration: 10e9 } }]
+          },
+          {
+            id: 'b',
+            keyword: 'Scenario Outline',
+            line: 9,
+            name: 'b',
+            steps: [{ keyword: 'Given ', result: { status: 'passed', duration: 2e9 } }]
+          }
+        ]
+      }
+    ]);
+
+    const summary = await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: path.join(workDir, 'tmp'),
+      shardCount: 2,
+      shardIndex: 1,
+      durationsReport: reportPath,
+      cleanTmpSpecDirectory: true
+    });
+
+    // The unknown Logout rows weigh the average (6s each): [alice, bob] vs [2 x Logout]
+    expect(summary?.shards).toEqual([
+      { index: 1, scenarios: 2, duration: 12000 },
+      { index: 2, scenarios: 2, duration: 12000 }
+    ]);
+    expect(listFiles(path.join(workDir, 'tmp'))).toEqual(['Login_1.feature', 'Login_2.feature']);
+  });
+
+  test('writes the pickle messages of the generated files', async () => {
+    writeFeature('specs/Messages.feature', MESSAGES_FEATURE);
+    const picklesPath = path.join(workDir, 'pickles.ndjson');
+
+    await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'specs'),
+      tmpSpecDirectory: path.join(workDir, 'tmp'),
+      expansion: 'pickles',
+      picklesPath,
+      cleanTmpSpecDirectory: true
+    });
+
+    const pickles = fs
+      .readFileSync(picklesPath, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+      .filter((envelope) => envelope.pickle)
+      .map(({ pickle }) => [path.basename(pickle.uri), pickle.name, pickle.steps[0].argument.docString.mediaType]);
+    expect(pickles).toEqual([
+      ['Messages_1.feature', 'Send two', 'json'],
+      ['Messages_2.feature', 'Send one', 'xml']
+    ]);
+  });
+});
+
+describe('splitFeatureSource', () => {
+  test('returns one output per Examples row with its origin', () => {
+    const outputs = splitFeatureSource(LOGIN_FEATURE, { uri: 'features/auth/Login.feature' });
+
+    expect(outputs.map((output) => output.fileName)).toEqual(['Login_1.feature', 'Login_2.feature']);
+    expect(outputs[1].content).toContain('| bob  |');
+    expect(outputs[1].content).not.toContain('alice');
+    expect(outputs[1].origin).toEqual({
+      uri: 'features/auth/Login.feature',
+      featureName: 'Login',
+      ruleName: undefined,
+      scenarioName: 'Login as <user>',
+      scenarioLine: 3,
+      examplesName: '',
+      examplesLine: 6,
+      rowIndex: 1,
+      rowLine: 9,
+      values: { user: 'bob' }
+    });
+  });
+
+  test('keeps the comments of the nodes of each output', () => {
+    const source = [
+      '# Owner: team-auth',
+      'Feature: Login',
+      '',
+      '  Background:',
+      '    # TODO: seed users',
+      '    Given the app is running',
+      '',
+      '  # JIRA-123',
+      '  Scenario: Plain login',
+      '    Given I log in',
+      '',
+      '  Scenario: Logout',
+      '    # Given I am logged in',
+      '    When I log out',
+      ''
+    ].join('\n');
+
+    const outputs = splitFeatureSource(source);
+
+    expect(outputs[0].content).toContain('# Owner: team-auth\n');
+    expect(outputs[0].content).toContain('    # TODO: seed users\n    Given the app is running\n\n  # JIRA-123\n');
+    expect(outputs[0].content).not.toContain('# Given I am logged in');
+    expect(outputs[1].content).toContain('# TODO: seed users');
+    expect(outputs[1].content).not.toContain('JIRA-123');
+    expect(outputs[1].content).toContain('    # Given I am logged in\n    When I log out\n');
+    expect(outputs[1].lineMap[outputs[1].content.split('\n').indexOf('    # Given I am logged in') + 1]).toBe(13);
+  });
+
+  test('inlines the feature and rule backgrounds into every scenario', () => {
+    const source = [
+      'Feature: Shop',
+      '',
+      '  Background:',
+      '    Given a shop',
+      '      | item |',
+      '      | tea  |',
+      '',
+      '  Rule: Checkout',
+      '    Background:',
+      '      Given a cart',
+      '',
+      '    Scenario: Pay',
+      '      When I pay',
+      ''
+    ].join('\n');
+
+    const [output] = splitFeatureSource(source, { inlineBackgrounds: true });
+
+    expect(output.content).toBe(
+      [
+        'Feature: Shop',
+        '',
+        '  Rule: Checkout',
+        '',
+        '    Scenario: Pay',
+        '      Given a shop',
+        '        | item |',
+        '        | tea  |',
+        '      Given a cart',
+        '      When I pay',
+        ''
+      ].join('\n')
+    );
+    expect(output.lineMap[6]).toBe(4);
+  });
+
+  test('keeps the dialect and keywords of the source', () => {
+    const source = [
+      '# language: de',
+      'Funktionalität: Anmeldung',
+      '  Grundlage:',
+      '    Angenommen die App läuft',
+      '',
+      '  Szenariogrundriss: Anmelden als <user>',
+      '    Wenn ich mich als <user> anmelde',
+      '',
+      '    Beispiele:',
+      '      | user  |',
+      '      | alice |',
+      ''
+    ].join('\n');
+
+    const [output] = splitFeatureSource(source);
+
+    expect(output.content.split('\n').slice(0, 5)).toEqual([
+      '# language: de',
+      'Funktionalität: Anmeldung',
+      '',
+      '  Grundlage:',
+      '    Angenommen die App läuft'
+    ]);
+    expect(output.content).toContain('Szenariogrundriss: Anmelden als <user>');
+    expect(output.content).toContain('    Beispiele:');
+    expect(splitFeatureSource(output.content)).toHaveLength(1);
+  });
+
+  test('parses sources without a language header in the given dialect', () => {
+    const source = 'Fonctionnalité: Connexion\n  Scénario: Se connecter\n    Soit un utilisateur\n';
+
+    expect(splitFeatureSource(source, { language: 'fr' })[0].content).toMatch(/^# language: fr\nFonctionnalité:/);
+    expect(() => splitFeatureSource(source)).toThrow(GherkinParseError);
+  });
+
+  test('writes the rows as their pickles with the pickles expansion', () => {
+    expect(splitFeatureSource(MESSAGES_FEATURE, { granularity: 'examples', expansion: 'pickles' })[0].content).toBe(
+      `Feature: Messages
+
+  Rule: Sending
+
+    @json
+    Scenario: Send two
+      Given I send "two"
+        """json
+        body
+        """
+
+    @json
+    Scenario: Send one
+      Given I send "one"
+        """xml
+        body
+        """
+`
+    );
+    expect(splitFeatureSource(MESSAGES_FEATURE, { granularity: 'examples' })[0].content).toBe(MESSAGES_FEATURE);
+    expect(() => splitFeatureSource(MESSAGES_FEATURE, { expansion: 'compiled' as never })).toThrow(/Invalid expansion/);
+  });
+
+  describe('granularity', () => {
+    const SOURCE = [
+      'Feature: Checkout',
+      '',
+      '  Scenario: Empty cart',
+      '    Given an empty cart',
+      '',
+      '  Scenario Outline: Pay with <method>',
+      '    When I pay with <method>',
+      '',
+      '    @smoke',
+      '    Examples: Cards',
+      '      | method |',
+      '      | visa   |',
+      '      | amex   |',
+      '',
+      '    Examples: Others',
+      '      | method |',
+      '      | paypal |',
+      '',
+      '  Rule: Refunds',
+      '',
+      '    Scenario: Refund',
+      '      Given a paid order',
+      ''
+    ].join('\n');
+    const sizes = (outputs: { origins: unknown[] }[]) => outputs.map((output) => output.origins.length);
+
+    test.each([
+      ['row', undefined, [1, 1, 1, 1, 1]],
+      ['examples', undefined, [1, 2, 1, 1]],
+      ['scenario', undefined, [1, 3, 1]],
+      ['rule', undefined, [4, 1]],
+      ['batch', 2, [2, 2, 1]]
+    ] as const)('%s', (granularity, batchSize, expected) => {
+      expect(sizes(splitFeatureSource(SOURCE, { granularity, batchSize }))).toEqual(expected);
+    });
+
+    test('keeps the selected rows of each Examples block', () => {
+      const [, cards] = splitFeatureSource(SOURCE, { granularity: 'examples' });
+
+      expect(cards.content).toContain('| visa   |\n      | amex   |');
+      expect(cards.content).not.toContain('paypal');
+      expect(cards.content).not.toContain('Empty cart');
+      expect(cards.origins.map((origin) => origin.values)).toEqual([{ method: 'visa' }, { method: 'amex' }]);
+    });
+
+    test('filters rows by tags before grouping', () => {
+      const outputs = splitFeatureSource(SOURCE, { granularity: 'scenario', tagExpression: '@smoke' });
+
+      expect(sizes(outputs)).toEqual([2]);
+      expect(outputs[0].content).not.toContain('Others');
+    });
+
+    test('groups the scenarios of a rule with the rule', () => {
+      const [, refunds] = splitFeatureSource(SOURCE, { granularity: 'rule' });
+
+      expect(refunds.content).toContain('  Rule: Refunds\n\n    Scenario: Refund\n');
+      expect(refunds.content).not.toContain('Pay with');
+    });
+
+    test('rejects invalid parameters', () => {
+      expect(() => splitFeatureSource(SOURCE, { granularity: 'batch' })).toThrow(/batchSize/);
+      expect(() => splitFeatureSource(SOURCE, { granularity: 'step' as never })).toThrow(/Invalid granularity/);
+    });
+  });
+
+  describe('line selection', () => {
+    const SOURCE = [
+      'Feature: Checkout', // line 1
+      '',
+      '  Scenario: Empty cart', // line 3
+      '    Given an empty cart',
+      '',
+      '  Scenario Outline: Pay with <method>', // line 6
+      '    When I pay with <method>',
+      '',
+      '    Examples: Cards', // line 9
+      '      | method |',
+      '      | visa   |', // line 11
+      '      | amex   |', // line 12
+      '',
+      '    Examples: Others', // line 14
+      '      | method |',
+      '      | paypal |', // line 16
+      '',
+      '  Rule: Refunds', // line 18
+      '',
+      '    Scenario: Refund', // line 20
+      '      Given a paid order',
+      '',
+      '    Scenario: Partial refund', // line 23
+      '      Given a paid order',
+      ''
+    ].join('\n');
+    const selected = (lines: number[]) =>
+      splitFeatureSource(SOURCE, { lines }).map(({ origin }) => origin.rowLine ?? origin.scenarioLine);
+
+    test.each([
+      ['a scenario', [3], [3]],
+      ['all rows of an outline', [6], [11, 12, 16]],
+      ['the rows of an Examples block', [9], [11, 12]],
+      ['an Examples row', [12, 16], [12, 16]],
+      ['a whole rule', [18], [20, 23]],
+      ['the whole feature', [1], [3, 11, 12, 16, 20, 23]],
+      ['nothing for other lines', [4, 10], []]
+    ])('selects %s', (_, lines, expected) => {
+      expect(selected(lines)).toEqual(expected);
+    });
+
+    test('splits only the selected files of the source folders', async () => {
+      const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-select-'));
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      try {
+        fs.outputFileSync(path.join(workDir, 'specs/Checkout.feature'), SOURCE);
+        fs.outputFileSync(path.join(workDir, 'specs/Login.feature'), LOGIN_FEATURE);
+        const rerunFile = path.join(workDir, 'rerun.txt');
+        fs.writeFileSync(rerunFile, `${path.join(workDir, 'specs/Checkout.feature')}:12:20\n`);
+
+        const summary = await performSetup({
+          sourceSpecDirectory: path.join(workDir, 'specs'),
+          tmpSpecDirectory: path.join(workDir, 'tmp'),
+          selectors: [`@${rerunFile}`, `${path.join(workDir, 'specs/Checkout.feature')}:3`],
+          cleanTmpSpecDirectory: true
+        });
+
+        expect(summary?.featureFiles).toBe(1);
+        expect(fs.readdirSync(path.join(workDir, 'tmp')).sort()).toEqual([
+          'Checkout_1.feature',
+          'Checkout_2.feature',
+          'Checkout_3.feature'
+        ]);
+        expect(fs.readFileSync(path.join(workDir, 'tmp/Checkout_2.feature'), 'utf8')).toContain('| amex   |');
+      } finally {
+        jest.restoreAllMocks();
+        fs.removeSync(workDir);
+      }
+    });
+  });
+
+  test('filters by name, combined with tags', () => {
+    const source = [
+      'Feature: Login',
+      '',
+      '  Scenario: Logout',
+      '    Given I log out',
+      '',
+      '  Rule: Admins',
+      '',
+      '    @smoke',
+      '    Scenario Outline: Login as <user>',
+      '      Given I log in as <user>',
+      '',
+      '      Examples: Legacy',
+      '        | user  |',
+      '        | alice |',
+      '        | bob   |',
+      ''
+    ].join('\n');
+    const names = (options: object) =>
+      splitFeatureSource(source, options).map(({ origin }) => `${origin.scenarioName} ${origin.values?.user ?? ''}`);
+
+    expect(names({ includeNames: ['as bob$'] })).toEqual(['Login as <user> bob']);
+    expect(names({ includeNames: ['^Admins$'] })).toEqual(['Login as <user> alice', 'Login as <user> bob']);
+    expect(names({ excludeNames: ['Legacy', 'Logout'] })).toEqual([]);
+    expect(names({ includeNames: ['Log'], excludeNames: ['alice'] })).toEqual(['Logout ', 'Login as <user> bob']);
+    expect(names({ includeNames: ['Log'], tagExpression: '@smoke' })).toHaveLength(2);
+    expect(() => names({ includeNames: ['('] })).toThrow(/Invalid name filter "\("/);
+  });
+
+  describe('name templates', () => {
+    const SOURCE = [
+      'Feature: Checkout',
+      '',
+      '  Scenario: Pay / refund (v2)',
+      '    Given an order',
+      '',
+      '  Rule: Cards',
+      '',
+      '    Scenario Outline: Pay with <method>',
+      '      When I pay with <method>',
+      '',
+      '      Examples: Débit',
+      '        | method |',
+      '        | visa   |',
+      '        | amex   |',
+      ''
+    ].join('\n');
+    const split = (nameTemplate: string, source = SOURCE) =>
+      splitFeatureSource(source, { uri: 'features/shop/Checkout.feature', nameTemplate });
+
+    test('builds filesystem-safe names from the origin', () => {
+      expect(split('{feature}_{rule}_{scenario}_{examples}_{row}').map((output) => output.fileName)).toEqual([
+        'Checkout_Pay_refund_v2.feature',
+        'Checkout_Cards_Pay_with_method_Débit_1.feature',
+        'Checkout_Cards_Pay_with_method_Débit_2.feature'
+      ]);
+      expect(split('{dir}/{line}').map((output) => output.fileName)).toEqual([
+        path.join('features_shop', '3.feature'),
+        path.join('features_shop', '13.feature'),
+        path.join('features_shop', '14.feature')
+      ]);
+    });
+
+    test('keeps names stable when scenarios are added', () => {
+      const before = split('{feature}_{scenario}_{row}');
+      const after = split(
+        '{feature}_{scenario}_{row}',
+        SOURCE.replace('  Rule:', '  Scenario: New\n    Given x\n\n  Rule:')
+      );
+
+      expect(after.map((output) => output.fileName)).toEqual(
+        expect.arrayContaining(before.map((output) => output.fileName))
+      );
+    });
+
+    test('de-duplicates names and hashes the content', () => {
+      const names = split('{feature}').map((output) => output.fileName);
+      const hashes = split('{hash}').map((output) => output.fileName);
+
+      expect(names).toEqual(['Checkout.feature', 'Checkout_2.feature', 'Checkout_3.feature']);
+      expect(hashes[0]).toMatch(/^[0-9a-f]{8}\.feature$/);
+      expect(new Set(hashes).size).toBe(3);
+      expect(split('{hash}')).toEqual(split('{hash}'));
+    });
+
+    test('rejects unknown tokens and paths outside the output folder', () => {
+      expect(() => split('{feature}_{nope}')).toThrow(/Unknown token \{nope\}/);
+      expect(() => split('../{feature}')).toThrow(/relative to the output folder/);
+    });
+  });
+
+  test('throws a GherkinParseError with the location of invalid source', () => {
+    const invalid = 'Feature: x\n  Scenario: y\n    Given z\n      | a |\n      | b | c |\n';
+
+    expect(() => splitFeatureSource(invalid)).toThrow(GherkinParseError);
+    expect(() => splitFeatureSource(invalid)).toThrow(expect.objectContaining({ uri: 'inline.feature', line: 5 }));
+  });
+});
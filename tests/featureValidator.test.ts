@@ -0,0 +1,136 @@
+import { validateFeatureSource, validateFeatures } from '../src/index';
+import * as fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+const SOURCE = `Feature: Login
+
+  Scenario Outline: Login as <user>
+    Given I log in as <user> with <password>
+      """
+      role: <role>
+      """
+
+    Examples: Users
+      | user  | role  | unused |
+      | alice | admin | x      |
+
+    Examples: Empty
+      | user | password | role | unused |
+
+  Scenario Outline: Login as <user>
+    Given I log in
+
+  Rule: Logout
+
+    Scenario: Logout
+      When I log out
+`;
+
+describe('validateFeatureSource', () => {
+  test('reports every rule with its location, severity and rule id', () => {
+    const diagnostics = validateFeatureSource(SOURCE, { uri: 'features/Login.feature' });
+
+    expect(diagnostics.map(({ line, column, severity, rule }) => [line, column, severity, rule])).toEqual([
+      [4, 35, 'error', 'unknown-placeholder'],
+      [10, 25, 'warning', 'unused-examples-column'],
+      [13, 5, 'error', 'empty-examples'],
+      [14, 34, 'warning', 'unused-examples-column'],
+      [16, 3, 'warning', 'duplicate-scenario-name'],
+      [16, 3, 'error', 'outline-without-examples']
+    ]);
+    expect(diagnostics[0]).toMatchObject({
+      file: 'features/Login.feature',
+      message: 'Placeholder <password> has no column in the Examples at line 9'
+    });
+  });
+
+  test('applies the configured severities', () => {
+    const diagnostics = validateFeatureSource(SOURCE, {
+      rules: { 'unused-examples-column': 'off', 'duplicate-scenario-name': 'error', 'empty-examples': 'warning' }
+    });
+
+    expect(diagnostics.map(({ severity, rule }) => `${severity} ${rule}`)).toEqual([
+      'error unknown-placeholder',
+      'warning empty-examples',
+      'error duplicate-scenario-name',
+      'error outline-without-examples'
+    ]);
+    expect(() => validateFeatureSource(SOURCE, { rules: { 'no-such-rule': 'error' } as never })).toThrow(
+      'Unknown validation rule "no-such-rule"'
+    );
+  });
+
+  test('reports rows with the wrong number of cells', () => {
+    const source =
+      'Feature: x\n  Scenario Outline: y <a>\n    Given z\n\n    Examples:\n      | a |\n      | 1 | 2 |\n';
+
+    expect(validateFeatureSource(source)).toEqual([
+      {
+        file: 'inline.feature',
+        line: 7,
+        column: 7,
+        severity: 'error',
+        rule: 'inconsistent-cell-count',
+        message: 'inconsistent cell count within the table'
+      }
+    ]);
+  });
+
+  test('reports a missing @data file at the line of its tag', () => {
+    const source = 'Feature: x\n  Scenario Outline: y <a>\n    Given z\n\n    @data:missing.csv\n    Examples:\n';
+
+    expect(validateFeatureSource(source)).toEqual([
+      expect.objectContaining({ line: 5, column: 5, severity: 'error', rule: 'external-examples' })
+    ]);
+  });
+});
+
+describe('validateFeatures', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-validate-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.removeSync(workDir);
+  });
+
+  test('validates the matching files and counts errors and warnings', async () => {
+    fs.outputFileSync(path.join(workDir, 'Login.feature'), SOURCE);
+    fs.copySync(path.resolve(__dirname, 'features', 'docstring_placeholder.feature'), path.join(workDir, 'ok.feature'));
+
+    const summary = await validateFeatures(path.join(workDir, '*.feature'));
+
+    expect(summary).toMatchObject({ featureFiles: 2, errorCount: 3, warningCount: 3 });
+    expect(new Set(summary.diagnostics.map((diagnostic) => path.basename(diagnostic.file)))).toEqual(
+      new Set(['Login.feature'])
+    );
+  });
+
+  test('reports unreadable files and logs through the logger', async () => {
+    fs.outputFileSync(path.join(workDir, 'Login.feature'), SOURCE);
+    const unreadable = path.join(workDir, 'Folder.feature');
+    fs.mkdirSync(unreadable);
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    const summary = await validateFeatures(path.join(workDir, '*.feature'), { logger });
+
+    expect(summary).toMatchObject({
+      featureFiles: 2,
+      errorCount: 3,
+      skippedFiles: [{ file: unreadable, reason: 'io-error' }]
+    });
+    expect(summary.fileErrors).toEqual([
+      expect.objectContaining({ name: 'FeatureIoError', path: unreadable, operation: 'read' })
+    ]);
+    expect(logger.info).toHaveBeenLastCalledWith('\n🔎 3 error(s), 3 warning(s) in 2 file(s)');
+    expect(console.log).not.toHaveBeenCalled();
+    await expect(validateFeatures(unreadable, { failFast: true, logger })).rejects.toMatchObject({
+      name: 'FeatureIoError'
+    });
+  });
+});
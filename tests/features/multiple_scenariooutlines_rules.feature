@@ -0,0 +1,42 @@
+@featureTag
+Feature: Convert every scenario outline of a feature
+
+  Background:
+    Given the application is running
+
+  Scenario: Open the home page
+    When I open the "Home" page
+    Then I should see the welcome message
+
+  Scenario Outline: Open the <pageName> page
+    When I open the "<pageName>" page
+    Then I should see the <title> title
+
+    @smoke
+    Examples: Main pages
+      | pageName | title   |
+      | Home     | Welcome |
+      | Profile  | Account |
+
+    @regression
+    Examples: Other pages
+      | pageName | title |
+      | Help     | FAQ   |
+
+  Rule: Administrators
+
+    Background:
+      Given I am logged in as an administrator
+
+    Scenario Outline: Manage <entity>
+      When I open the <entity> settings
+      Then I can edit the <entity>
+
+      Examples:
+        | entity |
+        | users  |
+        | roles  |
+
+    Scenario: Leave the administration
+      When I log out
+      Then I should see the login page
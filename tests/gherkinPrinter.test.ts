@@ -0,0 +1,115 @@
+import { anchorComments, printFeature } from '../src/index';
+import { parseFeatureSource } from '../src/helpers/parseUtils';
+import * as fs from 'fs-extra';
+import path from 'path';
+
+const EDGE_CASES = `# language: en
+@a @b
+@c
+Feature: Edge cases
+    First line of description
+      indented second line
+
+    after a blank line
+
+  Background:
+    Given a table
+      | a\\|b | c\\\\d | new\\nline |
+      | 1    | 22   |           |
+    And a doc
+      \`\`\`json
+      {
+        "x": "\\\`\\\`\\\`"
+      }
+
+      \`\`\`
+
+  Rule: With examples
+
+    Scenario Outline: With "quotes" and <value>
+      Given doc
+        """
+        a \\"\\"\\" b
+        """
+      * star step <value>
+
+      @examples
+      Examples: First
+        Examples description
+
+        | value |
+        | x     |
+
+      Examples:
+        | value |
+`;
+
+/** Feature AST without ids, locations and description indentation, which depend on the layout. */
+function normalize(source: string): unknown {
+  const { gherkinDocument } = parseFeatureSource(source, 'test.feature');
+  return JSON.parse(JSON.stringify(gherkinDocument.feature), (key, value) => {
+    if (key === 'id' || key === 'location') {
+      return undefined;
+    }
+    return key === 'description' ? dedent(value) : value;
+  });
+}
+
+function dedent(text: string): string {
+  const margin = Math.min(...(text.match(/^ *(?=\S)/gm) ?? ['']).map((indent) => indent.length));
+  return text.replace(new RegExp(`^ {${margin}}`, 'gm'), '');
+}
+
+function roundTrip(source: string): string {
+  return printFeature(parseFeatureSource(source, 'test.feature').gherkinDocument.feature!);
+}
+
+describe('Gherkin printer', () => {
+  const fixtures = ['features', 'expected_results'].flatMap((dir) =>
+    fs
+      .readdirSync(path.resolve(__dirname, dir))
+      .filter((file) => file.endsWith('.feature') && !file.startsWith('temp_')) // temp_ copies belong to other tests
+      .map((file) => path.join(dir, file))
+  );
+
+  test.each(fixtures)('prints %s exactly as formatted', (fixture) => {
+    const source = fs.readFileSync(path.resolve(__dirname, fixture), 'utf8');
+    expect(roundTrip(source)).toBe(source);
+  });
+
+  test('round-trips escapes, docstring delimiters, media types and descriptions', () => {
+    const printed = roundTrip(EDGE_CASES);
+
+    expect(normalize(printed)).toEqual(normalize(EDGE_CASES));
+    expect(roundTrip(printed)).toBe(printed);
+    expect(printed).toContain(
+      '@a @b\n@c\nFeature: Edge cases\n  First line of description\n    indented second line\n'
+    );
+    expect(printed).toContain('      | a\\|b | c\\\\d | new\\nline |\n      | 1    | 22   |           |\n');
+  });
+
+  test('prints comments before the node that follows them', () => {
+    const source = [
+      '# Owner: team-auth',
+      'Feature: Login',
+      '',
+      '  # JIRA-123',
+      '  Scenario: Plain',
+      '    Given I log in',
+      '    # commented out',
+      '    Then I see the dashboard',
+      '      # inside a table',
+      '      | a |',
+      '# end of file',
+      ''
+    ].join('\n');
+    const { gherkinDocument } = parseFeatureSource(source, 'test.feature');
+
+    expect(printFeature(gherkinDocument.feature!, anchorComments(gherkinDocument))).toBe(source);
+  });
+
+  test('keeps the dialect and keywords of the source', () => {
+    const source = '# language: fr\nFonctionnalité: Connexion\n\n  Scénario: Se connecter\n    Soit un utilisateur\n';
+    expect(roundTrip(source)).toBe(source);
+  });
+});
@@ -0,0 +1,178 @@
+import { buildFeatureInventory, exportInventory, formatInventory, parseCsv, silentLogger } from '../src/index';
+import * as fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+const SOURCE = `@auth
+Feature: Login
+  Checks the login.
+
+  Background:
+    Given the app is open
+
+  @smoke
+  Scenario Outline: Login as <user>
+    Given I log in as <user>
+      | name   | role   |
+      | <user> | <role> |
+
+    @fast
+    Examples: Users
+      | user  | role  |
+      | alice | admin |
+      | bob   | guest |
+
+  Rule: Logout
+
+    Background:
+      Given I am logged in
+
+    Scenario: Logout, then back
+      When I log out
+        """
+        bye <user>
+        """
+`;
+
+describe('buildFeatureInventory', () => {
+  test('lists every scenario and outline row with its resolved name, tags, steps, values and location', () => {
+    const inventory = buildFeatureInventory(SOURCE, { uri: 'features/Login.feature' })!;
+
+    expect(inventory).toMatchObject({
+      uri: 'features/Login.feature',
+      feature: 'Login',
+      description: 'Checks the login.'
+    });
+    expect(inventory.testCases).toEqual([
+      {
+        feature: 'Login',
+        name: 'Login as alice',
+        outline: 'Login as <user>',
+        tags: ['@auth', '@smoke', '@fast'],
+        backgroundSteps: [{ keyword: 'Given ', text: 'the app is open' }],
+        steps: [
+          {
+            keyword: 'Given ',
+            text: 'I log in as alice',
+            dataTable: [
+              ['name', 'role'],
+              ['alice', 'admin']
+            ]
+          }
+        ],
+        examples: { name: 'Users', values: { user: 'alice', role: 'admin' } },
+        location: { uri: 'features/Login.feature', line: 17, scenarioLine: 9 }
+      },
+      expect.objectContaining({ name: 'Login as bob', location: expect.objectContaining({ line: 18 }) }),
+      {
+        feature: 'Login',
+        rule: 'Logout',
+        name: 'Logout, then back',
+        tags: ['@auth'],
+        backgroundSteps: [
+          { keyword: 'Given ', text: 'the app is open' },
+          { keyword: 'Given ', text: 'I am logged in' }
+        ],
+        steps: [{ keyword: 'When ', text: 'I log out', docString: 'bye <user>' }],
+        location: { uri: 'features/Login.feature', line: 25, scenarioLine: 25 }
+      }
+    ]);
+  });
+
+  test('formats the inventory as CSV and as Markdown with a table of contents', () => {
+    const login = buildFeatureInventory(SOURCE, { uri: 'features/Login.feature' })!;
+    const other = buildFeatureInventory('Feature: Login\n  Scenario: Login as <user>\n    Given x\n', {
+      uri: 'features/Other.feature'
+    })!;
+
+    const [header, alice, , logout] = parseCsv(formatInventory([login], 'csv'));
+    expect(header).toEqual([
+      'Feature',
+      'Rule',
+      'Test case',
+      'Outline',
+      'Examples',
+      'Values',
+      'Tags',
+      'Background',
+      'Steps',
+      'File',
+      'Line'
+    ]);
+    expect(alice).toEqual([
+      'Login',
+      '',
+      'Login as alice',
+      'Login as <user>',
+      'Users',
+      'user=alice; role=admin',
+      '@auth @smoke @fast',
+      'Given the app is open',
+      'Given I log in as alice\n  | name | role |\n  | alice | admin |',
+      'features/Login.feature',
+      '17'
+    ]);
+    expect(logout.slice(0, 3)).toEqual(['Login', 'Logout', 'Logout, then back']);
+    expect(logout[8]).toBe('When I log out\n  """\n  bye <user>\n  """');
+
+    const markdown = formatInventory([login, other], 'markdown');
+    expect(markdown).toContain('- [Login](#login) (3)\n- [Login](#login-1) (1)');
+    expect(markdown).toContain(
+      [
+        '### Login as alice',
+        '',
+        '- **Outline:** Login as \\<user\\> (Examples: Users)',
+        '- **Values:** `user = alice`, `role = admin`',
+        '- **Tags:** `@auth` `@smoke` `@fast`',
+        '- **Source:** `features/Login.feature:17`',
+        '',
+        '```gherkin',
+        '# Background',
+        'Given the app is open',
+        '',
+        'Given I log in as alice',
+        '  | name | role |',
+        '  | alice | admin |',
+        '```'
+      ].join('\n')
+    );
+    expect(markdown).toContain('### Login as \\<user\\>');
+  });
+});
+
+describe('exportInventory', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-inventory-'));
+  });
+
+  afterEach(() => {
+    fs.removeSync(workDir);
+  });
+
+  test('writes the inventory of the matched files in the format of the output extension', async () => {
+    fs.outputFileSync(path.join(workDir, 'features/Login.feature'), SOURCE);
+    fs.outputFileSync(
+      path.join(workDir, 'features/Broken.feature'),
+      'Feature: x\n  Scenario: y\n    Given z\n      | a |\n      | b | c |\n'
+    );
+    const output = path.join(workDir, 'inventory.json');
+
+    const summary = await exportInventory(path.join(workDir, 'features/*.feature'), { output, logger: silentLogger });
+
+    expect(summary).toMatchObject({ featureFiles: 2, scenariosMatched: 3, writtenFiles: [output] });
+    expect(summary.skippedFiles).toEqual([
+      { file: path.join(workDir, 'features/Broken.feature'), reason: 'parse-error' }
+    ]);
+    expect(summary.fileErrors[0]).toMatchObject({ line: 5 });
+    const { features } = fs.readJsonSync(output);
+    expect(features.map((feature: { testCases: { name: string }[] }) => feature.testCases.map((t) => t.name))).toEqual([
+      ['Login as alice', 'Login as bob', 'Logout, then back']
+    ]);
+  });
+
+  test('rejects unknown formats', async () => {
+    await expect(exportInventory('*.feature', { format: 'xml' as never })).rejects.toThrow(/Unknown inventory format/);
+  });
+});
@@ -0,0 +1,158 @@
+import { convertOutlineSource, foldFeatureFiles, foldScenariosSource, silentLogger } from '../src/index';
+import { parseFeatureSource } from '../src/helpers/parseUtils';
+import * as fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+const SOURCE = `Feature: Login
+
+  # valid users
+  @smoke @admin
+  Scenario: Login as alice
+    Given I open the login page
+    When I log in as "alice" with password "secret1"
+    Then I see 3 items
+      | name  | role  |
+      | alice | admin |
+
+  Scenario: Logout
+    When I log out
+
+  # guest
+  @smoke
+  Scenario: Login as bob
+    Given I open the login page
+    When I log in as "bob" with password "secret2"
+    Then I see 5 items
+      | name | role  |
+      | bob  | guest |
+
+  Rule: Reports
+
+    Scenario: Daily report
+      Given the report "daily"
+
+    Scenario: Weekly report
+      Given the report "weekly"
+`;
+
+/** Name, step texts and arguments, and tags of every pickle, sorted. */
+function pickles(source: string): string[] {
+  return parseFeatureSource(source, 'test.feature', true)
+    .pickles.map((pickle) =>
+      JSON.stringify([
+        pickle.name,
+        pickle.steps.map((step) => [step.text, step.argument]),
+        pickle.tags.map((tag) => tag.name).sort()
+      ])
+    )
+    .sort();
+}
+
+describe('foldScenariosSource', () => {
+  test('folds scenarios differing in literal values into outlines running the same test cases', () => {
+    const result = foldScenariosSource(SOURCE);
+
+    expect(result.content).toBe(`Feature: Login
+
+  # valid users
+  @smoke
+  Scenario Outline: Login as <text>
+    Given I open the login page
+    When I log in as "<text>" with password "<text2>"
+    Then I see <number> items
+      | name   | role   |
+      | <text> | <role> |
+
+    @admin
+    Examples:
+      | text  | text2   | number | role  |
+      | alice | secret1 | 3      | admin |
+
+    Examples:
+      | text | text2   | number | role  |
+      # guest
+      | bob  | secret2 | 5      | guest |
+
+  Scenario: Logout
+    When I log out
+
+  Rule: Reports
+
+    Scenario Outline: <value> report
+      Given the report "<text>"
+
+      Examples:
+        | text   | value  |
+        | daily  | Daily  |
+        | weekly | Weekly |
+`);
+    expect(result.outlines).toEqual([
+      {
+        name: 'Login as <text>',
+        line: 5,
+        columns: ['text', 'text2', 'number', 'role'],
+        scenarios: [
+          { name: 'Login as alice', line: 5 },
+          { name: 'Login as bob', line: 17 }
+        ]
+      },
+      {
+        name: '<value> report',
+        line: 26,
+        columns: ['text', 'value'],
+        scenarios: [
+          { name: 'Daily report', line: 26 },
+          { name: 'Weekly report', line: 29 }
+        ]
+      }
+    ]);
+    expect(pickles(result.content)).toEqual(pickles(SOURCE));
+  });
+
+  test('is undone by the conversion', () => {
+    const { content } = convertOutlineSource(foldScenariosSource(SOURCE).content);
+    expect(pickles(content)).toEqual(pickles(SOURCE));
+  });
+
+  test('leaves scenarios alone when they differ in too many places or in whole steps', () => {
+    expect(foldScenariosSource(SOURCE, { maxPlaceholders: 3 }).outlines.map((outline) => outline.name)).toEqual([
+      '<value> report'
+    ]);
+    expect(foldScenariosSource(SOURCE, { minScenarios: 3 }).folded).toBe(false);
+
+    const unrelated = 'Feature: x\n\n  Scenario: a\n    Given one\n\n  Scenario: b\n    Given two\n';
+    expect(foldScenariosSource(unrelated)).toEqual({ content: unrelated, folded: false, outlines: [] });
+  });
+});
+
+describe('foldFeatureFiles', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-fold-'));
+  });
+
+  afterEach(() => {
+    fs.removeSync(workDir);
+  });
+
+  test('only proposes the outlines in dry-run mode, then folds the files in place', async () => {
+    const file = path.join(workDir, 'Login.feature');
+    fs.writeFileSync(file, SOURCE);
+    const messages: string[] = [];
+    const logger = { ...silentLogger, info: (message: string) => messages.push(message) };
+
+    const proposal = await foldFeatureFiles(file, { dryRun: true, logger });
+
+    expect(proposal).toMatchObject({ outlines: 2, scenariosMatched: 4, changedFiles: [file], writtenFiles: [] });
+    expect(messages).toContain('🧩 Would fold 2 scenarios into "Login as <text>" (line 5)');
+    expect(messages.some((message) => message.includes('+  Scenario Outline: Login as <text>'))).toBe(true);
+    expect(fs.readFileSync(file, 'utf8')).toBe(SOURCE);
+
+    const summary = await foldFeatureFiles(file, { logger: silentLogger });
+
+    expect(summary).toMatchObject({ outlines: 2, writtenFiles: [file] });
+    expect(fs.readFileSync(file, 'utf8')).toBe(foldScenariosSource(SOURCE).content);
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  performSetup,
+  readManifest,
+  remapCucumberJson,
+  remapMessages,
+  remapResultFile,
+  CucumberJsonFeature
+} from '../src/index';
+import { formatMessages, readScenarioDurations } from '../src/helpers/cucumberReport';
+import { generateMessages } from '@cucumber/gherkin';
+import * as messages from '@cucumber/messages';
+import * as fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+const SOURCE = `@auth
+Feature: Login
+
+  Background:
+    Given the app is running
+
+  Scenario: Plain login
+    Given I log in
+
+  Scenario Outline: Login as <user>
+    Given I log in as <user>
+
+    Examples:
+      | user  |
+      | alice |
+      | bob   |
+`;
+
+describe('Result remapping', () => {
+  let workDir: string;
+  let sourcePath: string;
+  let manifestPath: string;
+
+  beforeEach(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gherkin-utils-remap-'));
+    sourcePath = path.join(workDir, 'features', 'Login.feature');
+    manifestPath = path.join(workDir, 'manifest.json');
+    fs.outputFileSync(sourcePath, SOURCE);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'features'),
+      tmpSpecDirectory: path.join(workDir, 'tmp'),
+      manifestPath,
+      cleanTmpSpecDirectory: true
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.removeSync(workDir);
+  });
+
+  /** Envelopes cucumber would emit for the split files (sources, documents and pickles). */
+  function splitRunMessages(): messages.Envelope[] {
+    return readManifest(manifestPath).entries.flatMap((entry) =>
+      generateMessages(
+        fs.readFileSync(entry.file, 'utf8'),
+        entry.file,
+        messages.SourceMediaType.TEXT_X_CUCUMBER_GHERKIN_PLAIN,
+        { includeSource: true, includeGherkinDocument: true, includePickles: true, newId: messages.IdGenerator.uuid() }
+      )
+    );
+  }
+
+  test('remaps Cucumber JSON uris, lines and merges the outline rows into one feature', () => {
+    const manifest = readManifest(manifestPath);
+    const report: CucumberJsonFeature[] = manifest.entries.map((entry, i) => {
+      const splitLines = fs.readFileSync(entry.file, 'utf8').split('\n');
+      const scenarioLine = splitLines.findIndex((line) => line.trim().startsWith('Scenario')) + 1;
+      const rowLine = i === 0 ? scenarioLine : splitLines.length - 1;
+      return {
+        id: 'login',
+        uri: entry.file,
+        keyword: 'Feature',
+        line: 2,
+        name: 'Login',
+        tags: [{ name: '@auth', line: 1 }],
+        elements: [
+          {
+            id: `login;${i}`,
+            keyword: i === 0 ? 'Scenario' : 'Scenario Outline',
+            line: rowLine,
+            name: i === 0 ? 'Plain login' : `Login as ${i === 1 ? 'alice' : 'bob'}`,
+            steps: [{ keyword: 'Given ', line: scenarioLine + 1, result: { status: 'passed' } }]
+          }
+        ]
+      };
+    });
+
+    const remapped = remapCucumberJson(report, manifest);
+
+    expect(remapped).toHaveLength(1);
+    expect(remapped[0].uri).toBe(manifest.entries[0].origin.uri);
+    expect(remapped[0].elements.map((element) => [element.line, element.name, element.steps[0].line])).toEqual([
+      [7, 'Plain login', 8],
+      [15, 'Login as alice', 11],
+      [16, 'Login as bob', 11]
+    ]);
+  });
+
+  test('remaps messages onto a single original document', () => {
+    const manifest = readManifest(manifestPath);
+    const remapped = remapMessages(splitRunMessages(), manifest);
+
+    const documents = remapped
+      .filter((envelope) => envelope.gherkinDocument)
+      .map((envelope) => envelope.gherkinDocument!);
+    const pickles = remapped.filter((envelope) => envelope.pickle).map((envelope) => envelope.pickle!);
+    expect(documents).toHaveLength(1);
+    expect(documents[0].uri).toBe(manifest.entries[0].origin.uri);
+
+    const outline = documents[0].feature!.children[2].scenario!;
+    const rows = outline.examples[0].tableBody;
+    expect(pickles.map((pickle) => pickle.uri)).toEqual(Array(3).fill(documents[0].uri));
+    expect(pickles[1].astNodeIds).toEqual([outline.id, rows[0].id]);
+    expect(pickles[2].astNodeIds).toEqual([outline.id, rows[1].id]);
+    expect(pickles[2].steps[1].astNodeIds).toEqual([outline.steps[0].id, rows[1].id]);
+    expect(pickles[2].tags[0].astNodeId).toBe(documents[0].feature!.tags[0].id);
+  });
+
+  test('remaps a messages report file and logs through the logger', () => {
+    const input = path.join(workDir, 'report.ndjson');
+    const output = path.join(workDir, 'remapped.ndjson');
+    fs.writeFileSync(
+      input,
+      splitRunMessages()
+        .map((envelope) => JSON.stringify(envelope))
+        .join('\n') + '\n'
+    );
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    jest.mocked(console.log).mockClear();
+
+    remapResultFile({ manifestPath, input, output, logger });
+
+    expect(fs.readFileSync(output, 'utf8')).toContain(JSON.stringify(SOURCE));
+    expect(logger.info).toHaveBeenCalledWith(`🔁 Remapped ${input} -> ${output}`);
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  test('remaps the scenarios split from pickles onto their Examples rows', async () => {
+    await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'features'),
+      tmpSpecDirectory: path.join(workDir, 'tmp'),
+      expansion: 'pickles',
+      manifestPath,
+      cleanTmpSpecDirectory: true
+    });
+    const manifest = readManifest(manifestPath);
+    expect(manifest.entries[1].lineMap).toMatchObject({ 7: 15, 8: 11 });
+
+    const remapped = remapMessages(splitRunMessages(), manifest);
+    const pickles = remapped.filter((envelope) => envelope.pickle).map((envelope) => envelope.pickle!);
+    const original = generateMessages(
+      SOURCE,
+      manifest.entries[0].origin.uri,
+      messages.SourceMediaType.TEXT_X_CUCUMBER_GHERKIN_PLAIN,
+      {
+        includeSource: false,
+        includeGherkinDocument: false,
+        includePickles: true,
+        newId: messages.IdGenerator.incrementing()
+      }
+    );
+    const document = remapped.find((envelope) => envelope.gherkinDocument)!.gherkinDocument!;
+    const outline = document.feature!.children[2].scenario!;
+    const rows = outline.examples[0].tableBody;
+    expect(pickles.map((pickle) => pickle.name)).toEqual(original.map((envelope) => envelope.pickle!.name));
+    expect(pickles[2].astNodeIds).toEqual([outline.id, rows[1].id]);
+    expect(pickles[2].steps.map((step) => step.astNodeIds)).toEqual([
+      [document.feature!.children[0].background!.steps[0].id],
+      [outline.steps[0].id, rows[1].id]
+    ]);
+
+    const report: CucumberJsonFeature[] = manifest.entries.slice(1).map((entry, i) => ({
+      id: 'login',
+      uri: entry.file,
+      keyword: 'Feature',
+      line: 2,
+      name: 'Login',
+      elements: [
+        {
+          id: `login;${i}`,
+          keyword: 'Scenario',
+          line: 7,
+          name: `Login as ${i === 0 ? 'alice' : 'bob'}`,
+          steps: [{ keyword: 'Given ', line: 8, result: { status: 'passed' } }]
+        }
+      ]
+    }));
+    expect(
+      remapCucumberJson(report, manifest)[0].elements.map((element) => [element.line, element.steps[0].line])
+    ).toEqual([
+      [15, 11],
+      [16, 11]
+    ]);
+  });
+
+  test('keeps the rows of a @data file apart when splitting and remapping', async () => {
+    const dataSource =
+      'Feature: Data\n\n  Scenario Outline: Log in as <user>\n    Given I log in as <user>\n\n    @data:users.csv\n    Examples:\n      | user |\n';
+    fs.outputFileSync(path.join(workDir, 'data', 'Data.feature'), dataSource);
+    fs.outputFileSync(path.join(workDir, 'data', 'users.csv'), 'user\ncarol\ndave\n');
+    await performSetup({
+      sourceSpecDirectory: path.join(workDir, 'data'),
+      tmpSpecDirectory: path.join(workDir, 'tmp'),
+      nameTemplate: '{feature}_{line}',
+      manifestPath,
+      cleanTmpSpecDirectory: true
+    });
+
+    const manifest = readManifest(manifestPath);
+    const dataFile = path
+      .relative(process.cwd(), path.join(workDir, 'data', 'users.csv'))
+      .split(path.sep)
+      .join('/');
+    // Both rows sit on the line of their tag, and are told apart by their data row
+    expect(manifest.entries.map((entry) => path.basename(entry.file))).toEqual([
+      'Data_6-1.feature',
+      'Data_6-2.feature'
+    ]);
+    expect(manifest.entries.map(({ origin }) => [origin.rowLine, origin.dataFile, origin.dataRowIndex])).toEqual([
+      [6, dataFile, 0],
+      [6, dataFile, 1]
+    ]);
+    expect(manifest.entries.map((entry) => Object.values(entry.dataRows ?? {}))).toEqual([
+      [{ dataFile, dataRowIndex: 0 }],
+      [{ dataFile, dataRowIndex: 1 }]
+    ]);
+
+    const report: CucumberJsonFeature[] = manifest.entries.map((entry, i) => ({
+      id: 'data',
+      uri: entry.file,
+      keyword: 'Feature',
+      line: 1,
+      name: 'Data',
+      elements: [
+        {
+          id: `data;${i}`,
+          keyword: 'Scenario Outline',
+          line: fs.readFileSync(entry.file, 'utf8').trimEnd().split('\n').length,
+          name: 'Log in',
+          steps: [{ keyword: 'Given ', line: 4, result: { status: 'passed' } }]
+        }
+      ]
+    }));
+    expect(remapCucumberJson(report, manifest)[0].elements.map((element) => [element.line, element.name])).toEqual([
+      [6, 'Log in as carol'],
+      [6, 'Log in as dave']
+    ]);
+
+    const remapped = remapMessages(splitRunMessages(), manifest);
+    const rows = remapped.find((envelope) => envelope.gherkinDocument)!.gherkinDocument!.feature!.children[0].scenario!
+      .examples[0].tableBody;
+    const pickles = remapped.filter((envelope) => envelope.pickle).map((envelope) => envelope.pickle!);
+    expect(pickles.map((pickle) => [pickle.name, pickle.astNodeIds[1]])).toEqual([
+      ['Log in as carol', rows[0].id],
+      ['Log in as dave', rows[1].id]
+    ]);
+
+    // The durations of a run on the original file are keyed by data row too: carol took 3s, dave 1s
+    const run = pickles.flatMap((pickle, i): messages.Envelope[] => [
+      { testCase: { id: `case-${i}`, pickleId: pickle.id, testSteps: [] } },
+      {
+        testCaseStarted: {
+          id: `started-${i}`,
+          testCaseId: `case-${i}`,
+          attempt: 0,
+          timestamp: { seconds: 0, nanos: 0 }
+        }
+      },
+      {
+        testCaseFinished: {
+          testCaseStartedId: `started-${i}`,
+          willBeRetried: false,
+          timestamp: { seconds: i === 0 ? 3 : 1, nanos: 0 }
+        }
+      }
+    ]);
+    const reportPath = path.join(workDir, 'messages.ndjson');
+    fs.outputFileSync(reportPath, formatMessages([...remapped, ...run]));
+    const sourceUri = manifest.entries[0].origin.uri;
+    expect(readScenarioDurations(reportPath)).toEqual(
+      new Map([
+        [`${sourceUri}:${dataFile}:0`, 3000],
+        [`${sourceUri}:${dataFile}:1`, 1000]
+      ])
+    );
+  });
+});